@@ -0,0 +1,13 @@
+"use client";
+
+import dynamic from "next/dynamic";
+
+// Progress lives in browser storage, so the dashboard only renders on the client
+const AnalyticsDashboard = dynamic(
+  () => import("@/components/analytics-dashboard").then(mod => mod.AnalyticsDashboard),
+  { ssr: false }
+);
+
+export default function AnalyticsPage() {
+  return <AnalyticsDashboard />;
+}
@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import { JetBrains_Mono, Orbitron } from "next/font/google";
 import "./globals.css";
 import { ThemeProvider } from "@/components/theme-provider";
+import { StorageWarning } from "@/components/storage-warning";
+import { PlayersProvider } from "@/hooks/use-players";
 import { GameSettingsProvider } from "@/components/game-settings-provider";
 import { KeyBindingsProvider } from "@/hooks/use-key-bindings";
 import { LearningProgressProvider } from "@/hooks/use-learning-progress";
@@ -48,19 +50,22 @@ export default function RootLayout({
       </head>
       <body className="antialiased font-mono">
         <ThemeProvider>
-          <GameSettingsProvider>
-            <KeyBindingsProvider>
-              <LearningProgressProvider>
-                <RhythmSystemProvider>
+          <PlayersProvider>
+            <GameSettingsProvider>
+              <KeyBindingsProvider>
+                <LearningProgressProvider>
                   <DifficultySystemProvider>
-                    <VisualEffectsProvider>
-                      {children}
-                    </VisualEffectsProvider>
+                    <RhythmSystemProvider>
+                      <VisualEffectsProvider>
+                        {children}
+                      </VisualEffectsProvider>
+                    </RhythmSystemProvider>
                   </DifficultySystemProvider>
-                </RhythmSystemProvider>
-              </LearningProgressProvider>
-            </KeyBindingsProvider>
-          </GameSettingsProvider>
+                </LearningProgressProvider>
+              </KeyBindingsProvider>
+            </GameSettingsProvider>
+          </PlayersProvider>
+          <StorageWarning />
         </ThemeProvider>
       </body>
     </html>
@@ -1,10 +1,13 @@
 "use client";
 
 import { ThemeSwitcher } from "@/components/theme-switcher";
+import { PlayerSwitcher } from "@/components/player-switcher";
 import { GameSettings } from "@/components/game-settings";
 import { TetrisBoard } from "@/components/tetris-board";
 import { LearningProgress } from "@/components/learning-progress";
 import { GamificationPanel } from "@/components/gamification-panel";
+import { SprintPanel, SprintResults } from "@/components/sprint-display";
+import { MasterResults } from "@/components/master-display";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -14,9 +17,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Settings, Play } from "lucide-react";
+import { Settings, Play, Film, BarChart3 } from "lucide-react";
 import { useState } from "react";
+import Link from "next/link";
 import { GameMode } from "@/hooks/use-tetris-game";
+import { isStackingMode } from "@/lib/game-engine";
 
 const MODE_OPTIONS: { value: GameMode; label: string }[] = [
   { value: "LEARNING", label: "Learning Mode" },
@@ -29,6 +34,7 @@ const MODE_OPTIONS: { value: GameMode; label: string }[] = [
   { value: "L_ONLY", label: "L Only" },
   { value: "J_ONLY", label: "J Only" },
   { value: "FREE_STACK", label: "Free Stack" },
+  { value: "SPRINT_40L", label: "Sprint 40L" },
 ];
 
 export default function Page() {
@@ -50,6 +56,16 @@ export default function Page() {
           </h1>
         </div>
         <div className="flex items-center gap-2">
+          <Link href="/replay">
+            <Button variant="ghost" size="icon" className="h-6 w-6">
+              <Film className="h-3.5 w-3.5" />
+            </Button>
+          </Link>
+          <Link href="/analytics">
+            <Button variant="ghost" size="icon" className="h-6 w-6">
+              <BarChart3 className="h-3.5 w-3.5" />
+            </Button>
+          </Link>
           <Button
             variant="ghost"
             size="icon"
@@ -58,6 +74,7 @@ export default function Page() {
           >
             <Settings className="h-3.5 w-3.5" />
           </Button>
+          <PlayerSwitcher />
           <ThemeSwitcher />
         </div>
       </header>
@@ -97,9 +114,20 @@ export default function Page() {
                 {game.gameOver ? "START" : "RESTART"}
               </Button>
             </div>
+
+            {game.seed && (
+              <div className="mt-2 flex items-center justify-between text-[10px]">
+                <span className="text-muted-foreground uppercase tracking-wider">Seed</span>
+                <span className="font-mono font-bold select-all">{game.seed}</span>
+              </div>
+            )}
           </Card>
 
-          {game.gameMode === "FREE_STACK" && (
+          {game.gameMode === "SPRINT_40L" && (
+            <SprintPanel sprint={game.sprint} lines={game.lines} getTime={game.getTime} />
+          )}
+
+          {isStackingMode(game.gameMode) && (
             <Card className="p-3 bg-card/50 backdrop-blur-sm border-border/50">
               <div className="text-[9px] font-bold mb-1.5 text-muted-foreground tracking-wider uppercase">Hold</div>
               <div
@@ -150,7 +178,29 @@ export default function Page() {
               <Card className="p-1 border-0 bg-black/80 shadow-inner">
                 {game.renderGrid()}
                 {game.renderPauseOverlay()}
-                {game.gameOver && (
+                {game.gameOver && game.sprint?.finishedAt != null && (
+                  <div className="absolute inset-0 z-20 bg-background/80 backdrop-blur-sm flex items-center justify-center rounded-lg">
+                    <SprintResults
+                      sprint={game.sprint}
+                      score={game.score}
+                      lines={game.lines}
+                      onRestart={game.startGame}
+                    />
+                  </div>
+                )}
+                {game.gameOver && game.master?.endedAt != null && (
+                  <div className="absolute inset-0 z-20 bg-background/80 backdrop-blur-sm flex items-center justify-center rounded-lg">
+                    <MasterResults
+                      master={game.master}
+                      score={game.score}
+                      best={game.masterResult?.best ?? null}
+                      isNewBest={game.masterResult?.isNewBest ?? false}
+                      modeName={game.modeName}
+                      onRestart={game.startGame}
+                    />
+                  </div>
+                )}
+                {game.gameOver && game.sprint?.finishedAt == null && game.master?.endedAt == null && (
                   <div className="absolute inset-0 z-20 bg-background/80 backdrop-blur-sm flex items-center justify-center rounded-lg">
                     <div className="text-center space-y-3 p-5 bg-card border rounded-xl shadow-2xl transform transition-all animate-in fade-in zoom-in duration-300">
                       <div>
@@ -161,6 +211,9 @@ export default function Page() {
                       <div className="py-2">
                         <div className="text-[10px] font-mono text-muted-foreground uppercase tracking-widest mb-0.5">Mode</div>
                         <div className="font-bold text-sm">{game.modeName}</div>
+                        {game.masterActive && (
+                          <div className="text-[10px] font-bold text-primary uppercase tracking-wider mt-0.5">Master Mode</div>
+                        )}
                       </div>
 
                       <Button size="sm" className="w-full gap-2" onClick={game.startGame}>
@@ -180,7 +233,7 @@ export default function Page() {
 
         {/* Right Column: Guidance & Progress */}
         <div className="flex flex-col gap-3 w-[240px] shrink-0 h-full overflow-y-auto pl-1 custom-scrollbar">
-           {game.gameMode !== "FREE_STACK" && (
+           {!isStackingMode(game.gameMode) && (
             <Card className="p-3 bg-card/50 backdrop-blur-sm border-border/50 flex flex-col h-[280px]">
               <div className="text-[9px] font-bold mb-2 text-muted-foreground tracking-wider uppercase shrink-0">Target</div>
               <div className="bg-background/50 rounded-lg p-2 flex-1 flex items-center justify-center border border-border/50 overflow-y-auto custom-scrollbar">
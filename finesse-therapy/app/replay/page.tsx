@@ -0,0 +1,13 @@
+"use client";
+
+import dynamic from "next/dynamic";
+
+// Replays live in browser storage, so the viewer only renders on the client
+const ReplayViewer = dynamic(
+  () => import("@/components/replay-viewer").then(mod => mod.ReplayViewer),
+  { ssr: false }
+);
+
+export default function ReplayPage() {
+  return <ReplayViewer />;
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PIECES, PIECE_COLORS } from "@/components/learning-progress";
+import { useLearningProgress } from "@/hooks/use-learning-progress";
+import { CURRICULUM } from "@/lib/curriculum";
+import { SessionRecord, createSessionRecord } from "@/lib/scheduler";
+import {
+  CalendarDay,
+  PieceStats,
+  TrendPoint,
+  getAccuracyTrend,
+  getAttemptsTrend,
+  getMasteryGrowth,
+  getPieceStats,
+  getPracticeCalendar,
+} from "@/lib/analytics";
+
+const CALENDAR_WEEKS = 26;
+
+// A trend change smaller than this shows as flat
+const TREND_THRESHOLD = 0.02;
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Learning analytics - session trends, mastery growth, accuracy by piece and
+ * rotation, and a practice calendar, all from stored progress
+ */
+export function AnalyticsDashboard() {
+  const { progress } = useLearningProgress();
+  const [now] = useState(() => Date.now());
+
+  // The session in progress is saved as it goes, but history sent by the
+  // writer tab may not have caught up with it yet
+  const sessions = useMemo((): SessionRecord[] => {
+    const current = progress.currentSession;
+    if (current.attempts === 0) return progress.sessionHistory;
+    return [
+      createSessionRecord(
+        current.startTime,
+        current.attempts,
+        current.correct,
+        current.patternsReviewed.size,
+        current.patternsMasteredThisSession,
+        current.rotations
+      ),
+      ...progress.sessionHistory.filter(session => session.startedAt !== current.startTime),
+    ];
+  }, [progress.currentSession, progress.sessionHistory]);
+
+  const accuracyTrend = useMemo(() => getAccuracyTrend(sessions), [sessions]);
+  const attemptsTrend = useMemo(() => getAttemptsTrend(sessions), [sessions]);
+  const masteryGrowth = useMemo(() => getMasteryGrowth(sessions, progress.cards), [sessions, progress.cards]);
+  const pieceStats = useMemo(() => getPieceStats(PIECES, sessions, progress.cards), [sessions, progress.cards]);
+  const calendar = useMemo(() => getPracticeCalendar(sessions, CALENDAR_WEEKS, now), [sessions, now]);
+
+  const totalAttempts = sessions.reduce((sum, session) => sum + session.totalAttempts, 0);
+  const totalCorrect = sessions.reduce((sum, session) => sum + session.correctAttempts, 0);
+  const masteredCount = masteryGrowth.at(-1)?.value ?? 0;
+
+  return (
+    <div className="h-screen flex flex-col overflow-hidden bg-background text-foreground text-xs">
+      <header className="flex items-center justify-between px-4 py-2 border-b border-border/40 bg-background/50 backdrop-blur-md shrink-0 z-10 h-10">
+        <div className="flex items-center gap-3">
+          <Link href="/">
+            <Button variant="ghost" size="icon" className="h-6 w-6">
+              <ArrowLeft className="h-3.5 w-3.5" />
+            </Button>
+          </Link>
+          <h1 className="text-base font-bold tracking-tight">
+            Finesse <span className="text-primary">Analytics</span>
+          </h1>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+        <div className="max-w-5xl mx-auto space-y-4">
+          {/* Summary */}
+          <div className="grid grid-cols-4 gap-3">
+            <SummaryStat label="Sessions" value={sessions.length.toLocaleString()} />
+            <SummaryStat label="Attempts" value={totalAttempts.toLocaleString()} />
+            <SummaryStat label="Accuracy" value={formatPercent(totalAttempts > 0 ? totalCorrect / totalAttempts : null)} />
+            <SummaryStat label="Mastered" value={`${masteredCount} / ${CURRICULUM.length}`} />
+          </div>
+
+          {sessions.length === 0 ? (
+            <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50 text-center text-muted-foreground italic">
+              No learning sessions yet. Play Learning Mode and your sessions show up here.
+            </Card>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                <ChartCard title="Accuracy" points={accuracyTrend} max={1} format={formatPercent} />
+                <ChartCard title="Attempts" points={attemptsTrend} format={value => value.toLocaleString()} bars />
+                <ChartCard
+                  title="Patterns Mastered"
+                  points={masteryGrowth}
+                  max={CURRICULUM.length}
+                  format={value => value.toLocaleString()}
+                />
+              </div>
+
+              <PieceBreakdown stats={pieceStats} />
+            </>
+          )}
+
+          <PracticeCalendar calendar={calendar} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SummaryStat({ label, value }: { label: string; value: string }) {
+  return (
+    <Card className="p-3 bg-card/50 backdrop-blur-sm border-border/50">
+      <div className="text-[9px] font-bold uppercase tracking-widest text-muted-foreground">{label}</div>
+      <div className="text-lg font-bold text-foreground">{value}</div>
+    </Card>
+  );
+}
+
+/**
+ * A line (or bar) chart of one value per session, sessions evenly spaced
+ */
+function ChartCard({
+  title,
+  points,
+  max,
+  format,
+  bars = false,
+}: {
+  title: string;
+  points: TrendPoint[];
+  max?: number;                  // Top of the scale - the largest value when not given
+  format: (value: number) => string;
+  bars?: boolean;
+}) {
+  const top = max ?? Math.max(1, ...points.map(point => point.value));
+  const latest = points.at(-1);
+
+  return (
+    <Card className="p-3 bg-card/50 backdrop-blur-sm border-border/50 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[9px] font-bold uppercase tracking-widest text-muted-foreground">{title}</span>
+        {latest && <span className="font-bold text-foreground">{format(latest.value)}</span>}
+      </div>
+      <TrendChart points={points} max={top} bars={bars} className="h-24" />
+      {points.length > 0 && (
+        <div className="flex justify-between text-[9px] text-muted-foreground">
+          <span>{formatDate(points[0].timestamp)}</span>
+          <span>{format(top)} max</span>
+          <span>{formatDate(points[points.length - 1].timestamp)}</span>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function TrendChart({
+  points,
+  max,
+  bars = false,
+  className,
+}: {
+  points: TrendPoint[];
+  max: number;
+  bars?: boolean;
+  className?: string;
+}) {
+  const width = 100;
+  const height = 40;
+  const y = (value: number) => height - (Math.min(value, max) / max) * height;
+
+  if (bars) {
+    const barWidth = width / Math.max(points.length, 1);
+    return (
+      <svg className={cn("w-full", className)} viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+        {points.map((point, i) => (
+          <rect
+            key={point.timestamp}
+            x={i * barWidth + barWidth * 0.1}
+            y={y(point.value)}
+            width={barWidth * 0.8}
+            height={height - y(point.value)}
+            className="fill-primary/70"
+          >
+            <title>{`${formatDate(point.timestamp)}: ${point.value}`}</title>
+          </rect>
+        ))}
+      </svg>
+    );
+  }
+
+  // A single session shows as a flat line
+  const x = (i: number) => points.length > 1 ? (i / (points.length - 1)) * width : width / 2;
+  const path = points.length > 1
+    ? points.map((point, i) => `${x(i)},${y(point.value)}`).join(" ")
+    : points.map(point => `0,${y(point.value)} ${width},${y(point.value)}`).join(" ");
+
+  return (
+    <svg className={cn("w-full", className)} viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+      <line x1={0} y1={height / 2} x2={width} y2={height / 2} className="stroke-border" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+      <polyline points={path} fill="none" className="stroke-primary" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
+
+/**
+ * Lifetime accuracy of each piece with its trend over sessions, and of each
+ * rotation with how recent sessions compare to earlier ones
+ */
+function PieceBreakdown({ stats }: { stats: PieceStats[] }) {
+  return (
+    <Card className="p-3 bg-card/50 backdrop-blur-sm border-border/50 space-y-2">
+      <span className="text-[9px] font-bold uppercase tracking-widest text-muted-foreground">By Piece and Rotation</span>
+
+      <div className="space-y-1.5">
+        {stats.map(piece => (
+          <div key={piece.piece} className="grid grid-cols-[2rem_4rem_1fr_16rem] items-center gap-3">
+            <div
+              className="h-6 w-6 rounded flex items-center justify-center font-bold text-white"
+              style={{ backgroundColor: PIECE_COLORS[piece.piece].base }}
+            >
+              {piece.piece}
+            </div>
+            <div>
+              <div className="font-bold text-foreground">{formatPercent(piece.accuracy)}</div>
+              <div className="text-[9px] text-muted-foreground">{piece.attempts} tries</div>
+            </div>
+            {piece.trend.length > 0 ? (
+              <TrendChart points={piece.trend} max={1} className="h-8" />
+            ) : (
+              <div className="text-[10px] text-muted-foreground/60 italic">No sessions with this piece yet</div>
+            )}
+            <div className="grid grid-cols-4 gap-1">
+              {piece.rotations.map(rotation => (
+                <div
+                  key={rotation.rotation}
+                  className="rounded border border-border/50 px-1.5 py-1 text-center"
+                  title={`Rotation ${rotation.rotation}: ${rotation.attempts} tries`}
+                >
+                  <div className="text-[9px] text-muted-foreground">R{rotation.rotation}</div>
+                  <div className="font-bold text-foreground">
+                    {formatPercent(rotation.accuracy)}
+                    <TrendArrow change={rotation.change} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[10px] text-muted-foreground">
+        Arrows compare a rotation&apos;s last few sessions with the ones before.
+      </p>
+    </Card>
+  );
+}
+
+function TrendArrow({ change }: { change: number | null }) {
+  if (change === null) return null;
+  if (Math.abs(change) < TREND_THRESHOLD) {
+    return <span className="ml-0.5 text-muted-foreground">→</span>;
+  }
+  return change > 0
+    ? <span className="ml-0.5 text-green-500">↑</span>
+    : <span className="ml-0.5 text-red-500">↓</span>;
+}
+
+/**
+ * Attempts by day, GitHub-style
+ */
+function PracticeCalendar({ calendar }: { calendar: CalendarDay[][] }) {
+  const busiest = Math.max(1, ...calendar.flat().map(day => day.attempts));
+  const daysPracticed = calendar.flat().filter(day => day.attempts > 0).length;
+
+  return (
+    <Card className="p-3 bg-card/50 backdrop-blur-sm border-border/50 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[9px] font-bold uppercase tracking-widest text-muted-foreground">Practice Calendar</span>
+        <span className="text-[10px] text-muted-foreground">
+          {daysPracticed} days practiced in the last {CALENDAR_WEEKS} weeks
+        </span>
+      </div>
+
+      <div className="flex gap-[3px]">
+        {calendar.map((week, i) => (
+          <div key={i} className="flex flex-col gap-[3px]">
+            {week.map(day => (
+              <div
+                key={day.date}
+                className={cn("h-3 w-3 rounded-sm", day.attempts === 0 ? "bg-muted" : "bg-primary")}
+                style={day.attempts > 0 ? { opacity: 0.3 + 0.7 * (day.attempts / busiest) } : undefined}
+                title={`${formatDate(day.date)}: ${day.attempts} attempts`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
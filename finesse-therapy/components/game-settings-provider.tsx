@@ -7,29 +7,40 @@ import {
   DEFAULT_SETTINGS,
   STORAGE_KEY
 } from '@/hooks/use-game-settings';
+import { getPlayerValue, setPlayerValue } from '@/lib/players';
+import { broadcastValue, subscribeToValue } from '@/lib/tab-sync';
 
 export function GameSettingsProvider({ children }: { children: ReactNode }) {
   // Always start with defaults to avoid hydration mismatch
   const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS);
   const mountedRef = useRef(false);
+  // Set when the next change came from another tab, which already saved it
+  const remoteChangeRef = useRef(false);
 
-  // Load from localStorage on mount (client-only)
+  // Load from storage on mount (client-only)
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        setSettings(prev => ({ ...prev, ...JSON.parse(stored) }));
-      } catch {
-        // Invalid stored data, keep defaults
+    getPlayerValue<Partial<GameSettings>>(STORAGE_KEY).then(stored => {
+      // Invalid stored data keeps the defaults
+      if (stored && typeof stored === 'object') {
+        setSettings(prev => ({ ...prev, ...stored }));
       }
-    }
-    mountedRef.current = true;
+      mountedRef.current = true;
+    });
   }, []);
 
-  // Save to localStorage after initial mount
+  // Adopt changes made in other tabs
+  useEffect(() => subscribeToValue<GameSettings>(STORAGE_KEY, stored => {
+    remoteChangeRef.current = true;
+    setSettings({ ...DEFAULT_SETTINGS, ...stored });
+  }), []);
+
+  // Save after the initial load, and tell the other tabs
   useEffect(() => {
-    if (mountedRef.current) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    if (remoteChangeRef.current) {
+      remoteChangeRef.current = false;
+    } else if (mountedRef.current) {
+      setPlayerValue(STORAGE_KEY, settings);
+      broadcastValue(STORAGE_KEY, settings);
     }
   }, [settings]);
 
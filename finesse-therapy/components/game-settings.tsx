@@ -2,15 +2,28 @@
 
 import { useGameSettings } from "@/hooks/use-game-settings";
 import { useKeyBindings } from "@/hooks/use-key-bindings";
+import { useLearningProgress } from "@/hooks/use-learning-progress";
 import { GameAction } from "@/lib/types";
+import { exportProfile, findConflicts, isBindingProfileExport } from "@/lib/key-profiles";
+import { RandomizerType, RANDOMIZER_TYPES, RANDOMIZER_NAMES } from "@/lib/randomizer";
+import { SchedulerType, SCHEDULER_TYPES, SCHEDULER_NAMES } from "@/lib/scheduler";
 import { Button } from "./ui/button";
+import { ProfileTransfer } from "./profile-transfer";
 import { Badge } from "./ui/badge";
 import { Label } from "./ui/label";
 import { Separator } from "./ui/separator";
 import { Slider } from "./ui/slider";
-import { RotateCcw, Settings2, X, Keyboard } from "lucide-react";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { RotateCcw, Settings2, X, Keyboard, Plus, Download, Upload, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useEffect } from "react";
+import { ChangeEvent, useEffect, useMemo, useRef } from "react";
 
 const ACTION_LABELS: Record<GameAction, string> = {
   MOVE_LEFT: "Move Left",
@@ -25,6 +38,24 @@ const ACTION_LABELS: Record<GameAction, string> = {
   CHANGE_MODE: "Mode",
 };
 
+// Gravity choices in rows per frame
+const GRAVITY_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: "Off" },
+  { value: 1 / 60, label: "1/60G (1 row per second)" },
+  { value: 1 / 30, label: "1/30G" },
+  { value: 1 / 15, label: "1/15G" },
+  { value: 1 / 8, label: "1/8G" },
+  { value: 1 / 4, label: "1/4G" },
+  { value: 1 / 2, label: "1/2G" },
+  { value: 1, label: "1G" },
+  { value: 3, label: "3G" },
+  { value: 20, label: "20G (instant)" },
+];
+
+function formatFrames(frames: number): string {
+  return `${frames} ${frames === 1 ? 'frame' : 'frames'}`;
+}
+
 function formatKey(code: string): string {
   const keyMap: Record<string, string> = {
     'Space': 'SPACE',
@@ -71,12 +102,25 @@ export function GameSettings({ isOpen, onClose }: GameSettingsProps) {
   const { settings, updateSetting, resetSettings } = useGameSettings();
   const {
     bindings,
+    profiles,
+    activeProfile,
     listening,
     startListening,
     stopListening,
-    updateBinding,
+    addKey,
+    removeKey,
     resetBindings,
+    selectProfile,
+    createProfile,
+    deleteProfile,
+    importProfile,
   } = useKeyBindings();
+  const profileInputRef = useRef<HTMLInputElement>(null);
+
+  const conflictedKeys = useMemo(() => new Set(
+    findConflicts(bindings).filter(c => c.device === 'keyboard').map(c => c.input)
+  ), [bindings]);
+  const { progress, setScheduler } = useLearningProgress();
 
   // Convert slider value to actual value (slider uses 0 for instant, actual uses -1)
   const sliderToValue = (sliderVal: number) => sliderVal === 0 ? -1 : sliderVal;
@@ -93,12 +137,43 @@ export function GameSettings({ isOpen, onClose }: GameSettingsProps) {
         return;
       }
       // Use e.code to match how keys are looked up in tetris-board
-      updateBinding(listening, e.code);
+      addKey(listening, e.code);
     };
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [listening, updateBinding, stopListening]);
+  }, [listening, addKey, stopListening]);
+
+  const handleNewProfile = () => {
+    const name = prompt('Name for the new profile:', `${activeProfile.name} copy`)?.trim();
+    if (name) createProfile(name);
+  };
+
+  const handleExportProfile = () => {
+    const blob = new Blob([JSON.stringify(exportProfile(activeProfile), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `finesse-keys-${activeProfile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportProfile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!isBindingProfileExport(parsed)) {
+        alert('This file is not a supported key binding profile.');
+        return;
+      }
+      importProfile(parsed);
+    } catch {
+      alert('Could not read key binding profile file.');
+    }
+  };
 
   return (
     <>
@@ -223,6 +298,214 @@ export function GameSettings({ isOpen, onClose }: GameSettingsProps) {
 
           <Separator />
 
+          {/* Gravity and Timing */}
+          <div className="space-y-5">
+            <h3 className="text-lg font-bold text-primary">GRAVITY</h3>
+            <p className="text-xs text-muted-foreground -mt-3">
+              Applies to Free Stack and Sprint 40L
+            </p>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Gravity</Label>
+              <Select
+                value={String(settings.gravity)}
+                onValueChange={(value) => updateSetting('gravity', Number(value))}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GRAVITY_OPTIONS.map(({ value, label }) => (
+                    <SelectItem key={value} value={String(value)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Lock Delay */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-semibold">Lock Delay</Label>
+                <Badge variant="secondary" className="font-mono font-bold min-w-[80px] justify-center">
+                  {formatFrames(settings.lockDelay)}
+                </Badge>
+              </div>
+              <Slider
+                value={[settings.lockDelay]}
+                min={0}
+                max={60}
+                step={1}
+                onValueChange={([val]) => updateSetting('lockDelay', val)}
+                className="w-full"
+              />
+              <p className="text-xs text-muted-foreground">
+                Frames a grounded piece waits before locking
+              </p>
+            </div>
+
+            {/* Lock Resets */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-semibold">Lock Resets</Label>
+                <Badge variant="secondary" className="font-mono font-bold min-w-[80px] justify-center">
+                  {settings.lockResets}
+                </Badge>
+              </div>
+              <Slider
+                value={[settings.lockResets]}
+                min={0}
+                max={30}
+                step={1}
+                onValueChange={([val]) => updateSetting('lockResets', val)}
+                className="w-full"
+              />
+              <p className="text-xs text-muted-foreground">
+                Moves and rotations that restart lock delay, refilled on each new lowest row
+              </p>
+            </div>
+
+            {/* ARE */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-semibold">ARE (Entry Delay)</Label>
+                <Badge variant="secondary" className="font-mono font-bold min-w-[80px] justify-center">
+                  {formatFrames(settings.ARE)}
+                </Badge>
+              </div>
+              <Slider
+                value={[settings.ARE]}
+                min={0}
+                max={30}
+                step={1}
+                onValueChange={([val]) => updateSetting('ARE', val)}
+                className="w-full"
+              />
+              <p className="text-xs text-muted-foreground">
+                Frames between a piece locking and the next spawning
+              </p>
+            </div>
+
+            {/* Line Clear Delay */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-semibold">Line Clear Delay</Label>
+                <Badge variant="secondary" className="font-mono font-bold min-w-[80px] justify-center">
+                  {formatFrames(settings.lineClearDelay)}
+                </Badge>
+              </div>
+              <Slider
+                value={[settings.lineClearDelay]}
+                min={0}
+                max={60}
+                step={1}
+                onValueChange={([val]) => updateSetting('lineClearDelay', val)}
+                className="w-full"
+              />
+              <p className="text-xs text-muted-foreground">
+                Extra frames before the next piece when lines clear
+              </p>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Sprint */}
+          <div className="space-y-3">
+            <h3 className="text-lg font-bold text-primary">SPRINT</h3>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-semibold">Fault Penalty</Label>
+                <Badge variant="secondary" className="font-mono font-bold min-w-[80px] justify-center">
+                  {settings.sprintPenalty === 0 ? 'OFF' : `+${settings.sprintPenalty.toFixed(1)}s`}
+                </Badge>
+              </div>
+              <Slider
+                value={[settings.sprintPenalty]}
+                min={0}
+                max={5}
+                step={0.5}
+                onValueChange={([val]) => updateSetting('sprintPenalty', val)}
+                className="w-full"
+              />
+              <p className="text-xs text-muted-foreground">
+                Seconds added to a Sprint 40L time for each finesse fault
+              </p>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Piece Generation */}
+          <div className="space-y-3">
+            <h3 className="text-lg font-bold text-primary">PIECES</h3>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Randomizer</Label>
+              <Select
+                value={settings.randomizer}
+                onValueChange={(value) => updateSetting('randomizer', value as RandomizerType)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RANDOMIZER_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {RANDOMIZER_NAMES[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Seed</Label>
+              <Input
+                value={settings.seed}
+                onChange={(e) => updateSetting('seed', e.target.value.trim())}
+                placeholder="Random every game"
+                className="font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                Same seed and randomizer give the same piece order. Applies on next start.
+              </p>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Learning */}
+          <div className="space-y-3">
+            <h3 className="text-lg font-bold text-primary">LEARNING</h3>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Scheduler</Label>
+              <Select
+                value={progress.scheduler}
+                onValueChange={(value) => setScheduler(value as SchedulerType)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCHEDULER_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {SCHEDULER_NAMES[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Spaced repetition algorithm for Learning Mode. Existing progress carries over when switching.
+              </p>
+            </div>
+          </div>
+
+          <Separator />
+
           {/* Other Settings */}
           <div className="space-y-3">
             <h3 className="text-lg font-bold text-primary">OTHER</h3>
@@ -241,11 +524,25 @@ export function GameSettings({ isOpen, onClose }: GameSettingsProps) {
               description="Automatically reset piece when finesse fault is detected"
             />
 
+            <ToggleSetting
+              label="180 Finesse"
+              value={settings.allow180}
+              onChange={(v) => updateSetting('allow180', v)}
+              description="Grade with a 180 rotation key instead of two rotations"
+            />
+
+            <ToggleSetting
+              label="Strict Grading"
+              value={settings.strictFinesse}
+              onChange={(v) => updateSetting('strictFinesse', v)}
+              description="Inputs must match a shown optimal sequence in order, with no soft drop leniency"
+            />
+
             <ToggleSetting
               label="Master Mode"
               value={settings.masterMode}
               onChange={(v) => updateSetting('masterMode', v)}
-              description="Hide placed blocks for extra challenge"
+              description="No target moves, ghost or target outline and strict grading - a fault ends the run"
             />
           </div>
 
@@ -269,17 +566,51 @@ export function GameSettings({ isOpen, onClose }: GameSettingsProps) {
               </Button>
             </div>
 
+            {/* Binding profiles */}
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Profile</Label>
+              <Select value={activeProfile.id} onValueChange={selectProfile}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" className="flex-1 gap-1" onClick={handleNewProfile}>
+                  <Plus className="h-3 w-3" />
+                  New
+                </Button>
+                <Button variant="outline" size="sm" className="flex-1 gap-1" onClick={handleExportProfile}>
+                  <Download className="h-3 w-3" />
+                  Export
+                </Button>
+                <Button variant="outline" size="sm" className="flex-1 gap-1" onClick={() => profileInputRef.current?.click()}>
+                  <Upload className="h-3 w-3" />
+                  Import
+                </Button>
+                {!activeProfile.builtIn && (
+                  <Button variant="outline" size="sm" onClick={() => deleteProfile(activeProfile.id)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+              <input ref={profileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportProfile} />
+            </div>
+
             <div className="grid grid-cols-2 gap-2">
-              {bindings.map(({ key, action }) => (
-                <button
+              {bindings.map(({ keys, action }) => (
+                <div
                   key={action}
-                  onClick={() => startListening(action)}
                   className={cn(
                     "flex flex-col items-center p-2 rounded border text-center transition-all",
-                    "hover:border-primary hover:bg-accent",
                     listening === action && "border-primary bg-primary/10 animate-pulse"
                   )}
-                  disabled={listening !== null && listening !== action}
                 >
                   <span className="text-xs font-medium">
                     {ACTION_LABELS[action]}
@@ -289,21 +620,57 @@ export function GameSettings({ isOpen, onClose }: GameSettingsProps) {
                       Press key...
                     </span>
                   ) : (
-                    <Badge
-                      variant="secondary"
-                      className="text-xs px-2 py-0.5 font-mono font-bold mt-1"
-                    >
-                      {formatKey(key)}
-                    </Badge>
+                    <div className="flex flex-wrap justify-center gap-1 mt-1">
+                      {keys.map((key) => (
+                        <Badge
+                          key={key}
+                          variant={conflictedKeys.has(key) ? "destructive" : "secondary"}
+                          className="text-xs px-2 py-0.5 font-mono font-bold"
+                        >
+                          {formatKey(key)}
+                          <button
+                            onClick={() => removeKey(action, key)}
+                            className="opacity-60 hover:opacity-100"
+                            disabled={listening !== null}
+                            title="Remove key"
+                          >
+                            <X className="h-2.5 w-2.5" />
+                          </button>
+                        </Badge>
+                      ))}
+                      <button
+                        onClick={() => startListening(action)}
+                        disabled={listening !== null}
+                        title="Add key"
+                      >
+                        <Badge variant="outline" className="text-xs px-1.5 py-0.5 hover:border-primary">
+                          <Plus className="h-2.5 w-2.5" />
+                        </Badge>
+                      </button>
+                    </div>
                   )}
-                </button>
+                </div>
               ))}
             </div>
 
+            {conflictedKeys.size > 0 && (
+              <p className="text-xs text-destructive text-center">
+                Keys in red are bound to more than one action
+              </p>
+            )}
+
             <p className="text-xs text-muted-foreground text-center">
-              Click to remap, ESC to cancel
+              + to add a key, ESC to cancel. Editing a built-in profile saves a custom copy.
             </p>
           </div>
+
+          <Separator />
+
+          {/* Training Profile */}
+          <div className="space-y-3">
+            <h3 className="text-lg font-bold text-primary">TRAINING PROFILE</h3>
+            <ProfileTransfer />
+          </div>
         </div>
       </div>
     </>
@@ -2,11 +2,13 @@
 
 import { useKeyBindings } from "@/hooks/use-key-bindings";
 import { GameAction } from "@/lib/types";
+import { GamepadPoller, formatGamepadButton } from "@/lib/gamepad";
+import { findConflicts } from "@/lib/key-profiles";
 import { Button } from "./ui/button";
 import { Card } from "./ui/card";
 import { Badge } from "./ui/badge";
-import { useEffect } from "react";
-import { RotateCcw, Keyboard } from "lucide-react";
+import { useEffect, useMemo } from "react";
+import { RotateCcw, Keyboard, Gamepad2, Plus, X, AlertTriangle } from "lucide-react";
 
 const ACTION_LABELS: Record<GameAction, string> = {
   MOVE_LEFT: "Move Left",
@@ -67,13 +69,22 @@ function formatKey(code: string): string {
 export function KeyboardRemapper() {
   const {
     bindings,
+    activeProfile,
     listening,
+    listeningDevice,
     startListening,
     stopListening,
-    updateBinding,
+    addKey,
+    removeKey,
+    updateButtonBinding,
     resetBindings,
   } = useKeyBindings();
 
+  const conflicts = useMemo(() => findConflicts(bindings), [bindings]);
+  const conflictedActions = new Set(conflicts.flatMap(conflict => conflict.actions));
+  const conflictedKeys = new Set(conflicts.filter(c => c.device === 'keyboard').map(c => c.input));
+  const conflictedButtons = new Set(conflicts.filter(c => c.device === 'gamepad').map(c => Number(c.input)));
+
   useEffect(() => {
     if (!listening) return;
 
@@ -83,12 +94,34 @@ export function KeyboardRemapper() {
         stopListening();
         return;
       }
-      updateBinding(listening, e.code);
+      if (listeningDevice === 'keyboard') {
+        addKey(listening, e.code);
+      }
     };
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [listening, updateBinding, stopListening]);
+  }, [listening, listeningDevice, addKey, stopListening]);
+
+  // Gamepads have no button events - poll for the next press
+  useEffect(() => {
+    if (!listening || listeningDevice !== 'gamepad') return;
+
+    const gamepad = new GamepadPoller();
+    let rafId: number;
+
+    const poll = () => {
+      const press = gamepad.poll().find(edge => edge.pressed);
+      if (press) {
+        updateButtonBinding(listening, press.button);
+        return;
+      }
+      rafId = requestAnimationFrame(poll);
+    };
+
+    rafId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(rafId);
+  }, [listening, listeningDevice, updateButtonBinding]);
 
   return (
     <Card className="p-6 space-y-6">
@@ -98,6 +131,7 @@ export function KeyboardRemapper() {
           <h2 className="text-2xl font-bold font-[family-name:var(--font-display)]">
             KEYBOARD REMAPPING
           </h2>
+          <Badge variant="outline">{activeProfile.name}</Badge>
         </div>
         <Button
           variant="outline"
@@ -113,36 +147,99 @@ export function KeyboardRemapper() {
       {listening && (
         <div className="p-4 bg-primary/20 border-2 border-primary rounded-lg animate-pulse">
           <p className="text-center font-bold crt-effect">
-            PRESS ANY KEY FOR: {ACTION_LABELS[listening]}
+            PRESS ANY {listeningDevice === 'gamepad' ? 'BUTTON' : 'KEY'} FOR: {ACTION_LABELS[listening]}
             <br />
             <span className="text-sm opacity-75">(ESC to cancel)</span>
           </p>
         </div>
       )}
 
+      {conflicts.length > 0 && (
+        <div className="p-3 bg-destructive/10 border border-destructive/40 rounded-lg space-y-1 text-sm">
+          <div className="flex items-center gap-2 font-bold text-destructive">
+            <AlertTriangle className="h-4 w-4" />
+            Conflicting bindings - only the first action fires
+          </div>
+          {conflicts.map(({ input, device, actions }) => (
+            <div key={`${device}-${input}`} className="text-muted-foreground">
+              <span className="font-mono font-bold text-foreground">
+                {device === 'gamepad' ? formatGamepadButton(Number(input)) : formatKey(input)}
+              </span>
+              {': '}
+              {actions.map(action => ACTION_LABELS[action]).join(', ')}
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-        {bindings.map(({ key, action }) => (
-          <button
+        {bindings.map(({ keys, button, action }) => (
+          <div
             key={action}
-            onClick={() => startListening(action)}
-            className="flex items-center justify-between p-4 rounded-lg border-2 border-border hover:border-primary transition-all hover:scale-105 active:scale-95 bg-card group"
-            disabled={listening !== null && listening !== action}
+            className={`flex items-center justify-between gap-2 p-4 rounded-lg border-2 bg-card ${
+              conflictedActions.has(action) ? 'border-destructive' : 'border-border'
+            }`}
           >
-            <span className="font-semibold text-sm group-hover:text-primary transition-colors">
+            <span className="font-semibold text-sm">
               {ACTION_LABELS[action]}
             </span>
-            <Badge
-              variant={listening === action ? "default" : "secondary"}
-              className="text-lg px-4 py-2 font-mono font-bold min-w-[80px] justify-center"
-            >
-              {formatKey(key)}
-            </Badge>
-          </button>
+            <div className="flex flex-wrap justify-end items-center gap-2">
+              {keys.map(key => (
+                <Badge
+                  key={key}
+                  variant={conflictedKeys.has(key) ? "destructive" : "secondary"}
+                  className="text-sm px-2 py-1 font-mono font-bold gap-1"
+                >
+                  {formatKey(key)}
+                  <button
+                    onClick={() => removeKey(action, key)}
+                    className="opacity-60 hover:opacity-100"
+                    disabled={listening !== null}
+                    title="Remove key"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              <button
+                onClick={() => startListening(action, 'keyboard')}
+                className="transition-all hover:scale-105 active:scale-95"
+                disabled={listening !== null && listening !== action}
+                title="Add key"
+              >
+                <Badge
+                  variant={listening === action && listeningDevice === 'keyboard' ? "default" : "outline"}
+                  className="text-sm px-2 py-1 font-mono font-bold"
+                >
+                  <Plus className="h-3 w-3" />
+                </Badge>
+              </button>
+              <button
+                onClick={() => startListening(action, 'gamepad')}
+                className="transition-all hover:scale-105 active:scale-95"
+                disabled={listening !== null && listening !== action}
+                title="Gamepad"
+              >
+                <Badge
+                  variant={
+                    listening === action && listeningDevice === 'gamepad'
+                      ? "default"
+                      : button !== null && conflictedButtons.has(button) ? "destructive" : "outline"
+                  }
+                  className="text-xs px-3 py-1 font-mono font-bold min-w-[80px] justify-center gap-1"
+                >
+                  <Gamepad2 className="h-3 w-3" />
+                  {button !== null ? formatGamepadButton(button) : '—'}
+                </Badge>
+              </button>
+            </div>
+          </div>
         ))}
       </div>
 
       <div className="text-xs text-muted-foreground text-center space-y-1">
-        <p>Click any binding to remap it</p>
+        <p>Click + to add a key, or a gamepad binding to remap it</p>
+        <p>Editing a built-in profile saves a custom copy</p>
         <p>Press ESC while remapping to cancel</p>
       </div>
     </Card>
@@ -4,9 +4,12 @@ import { useMemo } from "react";
 import { useLearningProgress, MasteryGridData } from "@/hooks/use-learning-progress";
 import { RotateCcw } from "lucide-react";
 import { Card } from "@/components/ui/card";
+import { SessionHistory } from "@/components/session-history";
+import { DRILL_CLEAR_STREAK, parsePatternId } from "@/lib/scheduler";
+import { CURRICULUM_TIERS, TIER_NAMES, TIER_UNLOCK_MASTERY, getCurrentTier, getTierProgress } from "@/lib/curriculum";
 
 // Piece colors matching tetromino theme
-const PIECE_COLORS: Record<string, { base: string; glow: string }> = {
+export const PIECE_COLORS: Record<string, { base: string; glow: string }> = {
   Z: { base: "#ef4444", glow: "0 0 8px #ef4444" },
   S: { base: "#22c55e", glow: "0 0 8px #22c55e" },
   I: { base: "#06b6d4", glow: "0 0 8px #06b6d4" },
@@ -16,7 +19,12 @@ const PIECE_COLORS: Record<string, { base: string; glow: string }> = {
   J: { base: "#3b82f6", glow: "0 0 8px #3b82f6" },
 };
 
-const PIECES = ["Z", "S", "I", "T", "O", "L", "J"] as const;
+export const PIECES = ["Z", "S", "I", "T", "O", "L", "J"] as const;
+
+function formatPattern(patternId: string): string {
+  const { piece, column, rotation } = parsePatternId(patternId);
+  return `${piece} col ${column} rot ${rotation}`;
+}
 
 
 interface LearningProgressProps {
@@ -28,6 +36,10 @@ export function LearningProgress({ className }: LearningProgressProps) {
 
   const masteryGrid = useMemo(() => getMasteryGrid(), [getMasteryGrid]);
   const stats = useMemo(() => getOverallStats(), [getOverallStats]);
+  const tierProgress = useMemo(() => getTierProgress(progress.cards), [progress.cards]);
+  const currentTier = tierProgress.find(t => t.tier === getCurrentTier(progress.cards)) ?? tierProgress[0];
+  const currentTierIndex = CURRICULUM_TIERS.indexOf(currentTier.tier);
+  const nextTier = CURRICULUM_TIERS[currentTierIndex + 1];
 
   const sessionStats = {
     attempts: progress.currentSession.attempts,
@@ -94,11 +106,56 @@ export function LearningProgress({ className }: LearningProgressProps) {
             <StatItem label="Learning" value={stats.inProgressCount} color="text-yellow-400" />
             <StatItem label="Session" value={sessionStats.correct} total={sessionStats.attempts} color="text-cyan-400" />
             <StatItem label="Accuracy" value={`${sessionStats.accuracy.toFixed(0)}%`} color={sessionStats.accuracy > 80 ? "text-green-400" : "text-orange-400"} />
+            <StatItem label="Due Today" value={stats.dueTodayCount} color={stats.dueTodayCount > 0 ? "text-orange-400" : "text-green-400"} />
+            <StatItem label="New" value={stats.notStartedCount} color="text-muted-foreground" />
+          </div>
+        </div>
+
+        {/* Curriculum tier - new patterns come from unlocked tiers only */}
+        <div className="mt-4">
+          <div className="flex justify-between text-[9px] uppercase tracking-wider mb-1">
+            <span className="text-muted-foreground">
+              Tier {currentTierIndex + 1}/{CURRICULUM_TIERS.length}: <span className="text-foreground font-bold">{TIER_NAMES[currentTier.tier]}</span>
+            </span>
+            <span className="text-muted-foreground">
+              {currentTier.mastered}/{currentTier.total}
+            </span>
+          </div>
+          <div className="flex gap-0.5">
+            {tierProgress.map((tier, index) => (
+              <div
+                key={tier.tier}
+                className={`h-1 flex-1 rounded-full ${index < currentTierIndex ? 'bg-green-400' : index === currentTierIndex ? 'bg-cyan-400' : 'bg-muted/30'}`}
+                title={`${TIER_NAMES[tier.tier]}: ${tier.mastered}/${tier.total} mastered`}
+              />
+            ))}
           </div>
+          {nextTier && (
+            <div className="text-[9px] text-muted-foreground mt-1">
+              Master {Math.ceil(currentTier.total * TIER_UNLOCK_MASTERY)} to unlock {TIER_NAMES[nextTier]}
+            </div>
+          )}
         </div>
       </Card>
 
 
+      {/* Remediation drill for a leech */}
+      {progress.drill && (
+        <Card className="p-3 bg-destructive/10 border-destructive/40 shrink-0">
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] font-bold uppercase tracking-widest text-destructive">Leech Drill</span>
+            <span className="font-bold text-foreground">
+              {progress.drill.streak}/{DRILL_CLEAR_STREAK}
+            </span>
+          </div>
+          <div className="text-[10px] text-muted-foreground mt-1">
+            {formatPattern(progress.drill.patternId)} - clear it {DRILL_CLEAR_STREAK} times in a row
+          </div>
+        </Card>
+      )}
+
+      <SessionHistory />
+
       {/* Legend */}
       <div className="grid grid-cols-7 gap-1">
           {PIECES.map((piece) => {
@@ -106,14 +163,20 @@ export function LearningProgress({ className }: LearningProgressProps) {
             const totalPatterns = pieceData?.rotations.reduce((sum, r) => sum + r.columns.length, 0) || 0;
             const masteredPatterns = pieceData?.rotations.reduce((sum, r) =>
               sum + r.columns.filter(c => c.mastered).length, 0) || 0;
+            const leeches = pieceData?.rotations.flatMap(r =>
+              r.columns.filter(c => c.leech).map(c => `col ${c.column} rot ${r.rotation}`)) || [];
             
             const isComplete = masteredPatterns === totalPatterns && totalPatterns > 0;
 
             return (
-              <div key={piece} className={`
-                flex flex-col items-center gap-1 p-1.5 rounded-lg border transition-all duration-300
-                ${isComplete ? 'bg-primary/10 border-primary/30' : 'bg-card/30 border-transparent'}
-              `}>
+              <div
+                key={piece}
+                title={leeches.length > 0 ? `Leeches: ${leeches.join(", ")}` : undefined}
+                className={`
+                  flex flex-col items-center gap-1 p-1.5 rounded-lg border transition-all duration-300
+                  ${leeches.length > 0 ? 'bg-destructive/10 border-destructive/40' : isComplete ? 'bg-primary/10 border-primary/30' : 'bg-card/30 border-transparent'}
+                `}
+              >
                 <div
                   className="w-2 h-2 rounded-full transition-all"
                   style={{
@@ -124,6 +187,9 @@ export function LearningProgress({ className }: LearningProgressProps) {
                 <span className={`text-[9px] font-bold ${isComplete ? 'text-foreground' : 'text-muted-foreground'}`}>
                   {masteredPatterns}/{totalPatterns}
                 </span>
+                {leeches.length > 0 && (
+                  <span className="text-[8px] font-bold text-destructive">{leeches.length} leech</span>
+                )}
               </div>
             );
           })}
@@ -0,0 +1,85 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Play, Trophy } from "lucide-react";
+import { GameScore, MasterRun } from "@/lib/game-engine";
+import { FAULT_NAMES } from "@/lib/finesse-grader";
+import { MOVE_NAMES } from "@/lib/finesse-data";
+import { PersonalBest } from "@/lib/personal-best";
+import { formatSprintTime } from "@/components/sprint-display";
+
+interface MasterResultsProps {
+  master: MasterRun;
+  score: GameScore;
+  best: PersonalBest | null;
+  isNewBest: boolean;
+  modeName: string;
+  onRestart: () => void;
+}
+
+/**
+ * End screen for a Master Mode run - how far it got and the fault that ended it
+ */
+export function MasterResults({ master, score, best, isNewBest, modeName, onRestart }: MasterResultsProps) {
+  const time = (master.endedAt ?? master.startedAt) - master.startedAt;
+  const pps = time > 0 ? score.correct / (time / 1000) : 0;
+  const { fault } = master;
+
+  return (
+    <div className="text-center space-y-3 p-5 bg-card border rounded-xl shadow-2xl w-[280px] animate-in fade-in zoom-in duration-300">
+      <div>
+        <h2 className="text-2xl font-black tracking-tight text-primary">Run Over</h2>
+        <p className="text-muted-foreground text-[10px] mt-0.5">Master Mode - {modeName}</p>
+      </div>
+
+      <div>
+        <div className="text-3xl font-mono font-black">{score.correct}</div>
+        <div className="text-[10px] text-muted-foreground uppercase tracking-wider">Pieces</div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-[10px]">
+        <div>
+          <div className="text-muted-foreground uppercase tracking-wider">Time</div>
+          <div className="font-mono font-bold text-sm">{formatSprintTime(time)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground uppercase tracking-wider">PPS</div>
+          <div className="font-mono font-bold text-sm">{pps.toFixed(2)}</div>
+        </div>
+      </div>
+
+      {isNewBest ? (
+        <div className="flex items-center justify-center gap-1.5 text-xs font-bold text-yellow-400">
+          <Trophy className="h-3.5 w-3.5" />
+          New personal best
+        </div>
+      ) : best && (
+        <div className="text-[10px] text-muted-foreground">
+          Personal best: <span className="font-mono font-bold text-foreground">{best.pieces}</span> pieces in {formatSprintTime(best.time)}
+        </div>
+      )}
+
+      {fault && (
+        <div className="text-left text-[10px] space-y-0.5">
+          <div className="text-[9px] font-bold text-muted-foreground tracking-wider uppercase">Fault</div>
+          <div className="flex justify-between">
+            <span className="font-mono text-muted-foreground">#{fault.piece} {fault.type}</span>
+            <span className="text-destructive">
+              {fault.verdict.fault ? FAULT_NAMES[fault.verdict.fault] : "Fault"}
+            </span>
+          </div>
+          {fault.verdict.expected && (
+            <div className="text-muted-foreground">
+              Expected: {fault.verdict.expected.map(move => MOVE_NAMES[move]).join(", ")}
+            </div>
+          )}
+        </div>
+      )}
+
+      <Button size="sm" className="w-full gap-2" onClick={onRestart}>
+        <Play className="h-3 w-3" />
+        SPACE to Retry
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { usePlayers } from "@/hooks/use-players";
+import { DEFAULT_PLAYER_ID } from "@/lib/players";
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { Pencil, Plus, Trash2, User } from "lucide-react";
+
+export function PlayerSwitcher() {
+  const { players, activePlayer, switchPlayer, createPlayer, renamePlayer, deletePlayer } = usePlayers();
+
+  const handleNewPlayer = () => {
+    const name = prompt('Name for the new player:')?.trim();
+    if (name) createPlayer(name);
+  };
+
+  const handleRename = () => {
+    const name = prompt('New name:', activePlayer.name)?.trim();
+    if (name) renamePlayer(activePlayer.id, name);
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Delete ${activePlayer.name} and all of their progress?`)) {
+      deletePlayer(activePlayer.id);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-6 gap-1.5 text-xs max-w-[160px]">
+          <User className="h-3.5 w-3.5 shrink-0" />
+          <span className="truncate">{activePlayer.name}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel>Player</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={activePlayer.id} onValueChange={switchPlayer}>
+          {players.map(player => (
+            <DropdownMenuRadioItem key={player.id} value={player.id}>
+              {player.name}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={handleNewPlayer}>
+          <Plus />
+          New player
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={handleRename}>
+          <Pencil />
+          Rename
+        </DropdownMenuItem>
+        {activePlayer.id !== DEFAULT_PLAYER_ID && (
+          <DropdownMenuItem variant="destructive" onSelect={handleDelete}>
+            <Trash2 />
+            Delete player
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
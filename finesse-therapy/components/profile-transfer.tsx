@@ -0,0 +1,189 @@
+"use client";
+
+import { ChangeEvent, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import { Download, Upload } from "lucide-react";
+import { MODE_NAMES } from "@/components/tetris-board";
+import { DIFFICULTY_TIERS } from "@/hooks/use-difficulty-system";
+import {
+  TrainingProfile,
+  TrainingProfileDiff,
+  diffTrainingProfiles,
+  isTrainingProfile,
+  loadTrainingProfile,
+  mergeTrainingProfiles,
+  saveTrainingProfile,
+} from "@/lib/training-profile";
+
+interface PendingImport {
+  local: TrainingProfile;
+  imported: TrainingProfile;
+  diff: TrainingProfileDiff;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "number") return String(Math.round(value * 1000) / 1000);
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Export the whole training profile to a file, and import one with a preview
+ * of what changes before merging or replacing
+ */
+export function ProfileTransfer() {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    let profile: TrainingProfile;
+    try {
+      profile = await loadTrainingProfile();
+    } catch {
+      alert('Could not read the training profile from storage.');
+      return;
+    }
+    const blob = new Blob([JSON.stringify(profile)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `finesse-training-${new Date(profile.exportedAt).toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!isTrainingProfile(parsed)) {
+        alert('This file is not a supported training profile.');
+        return;
+      }
+      const local = await loadTrainingProfile();
+      setPending({ local, imported: parsed, diff: diffTrainingProfiles(local, parsed) });
+    } catch {
+      alert('Could not read training profile file.');
+    }
+  };
+
+  // Every provider reads storage on load, so reload to apply
+  const applyImport = async (merge: boolean) => {
+    if (!pending) return;
+    setSaving(true);
+    try {
+      await saveTrainingProfile(merge ? mergeTrainingProfiles(pending.local, pending.imported) : pending.imported);
+    } catch {
+      setSaving(false);
+      alert('Import failed - the training profile could not be saved.');
+      return;
+    }
+    window.location.reload();
+  };
+
+  const diff = pending?.diff;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1 gap-1" onClick={handleExport}>
+          <Download className="h-3 w-3" />
+          Export
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1 gap-1" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-3 w-3" />
+          Import
+        </Button>
+      </div>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      <p className="text-xs text-muted-foreground">
+        Settings, bindings, learning progress, session history, difficulty and personal bests in one file
+      </p>
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && !saving && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Import training profile</AlertDialogTitle>
+            <AlertDialogDescription>
+              Exported {pending && new Date(pending.imported.exportedAt).toLocaleString()}.
+              Merge combines progress and keeps local settings; replace overwrites everything.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {diff && (
+            <div className="space-y-2 text-xs max-h-[50vh] overflow-y-auto">
+              <DiffSection label="Settings">
+                {diff.settings.length === 0 ? "No changes" : diff.settings.map(({ key, local, imported }) => (
+                  <div key={key} className="font-mono">
+                    {key}: {formatValue(local)} → {formatValue(imported)}
+                  </div>
+                ))}
+              </DiffSection>
+
+              <DiffSection label="Key bindings">
+                {diff.keyBindings.localProfile ?? "Default"} → {diff.keyBindings.importedProfile ?? "Default"}
+                {diff.keyBindings.newProfiles.length > 0 && (
+                  <div>New profiles: {diff.keyBindings.newProfiles.join(", ")}</div>
+                )}
+              </DiffSection>
+
+              <DiffSection label="Learning cards">
+                {diff.cards.added} new, {diff.cards.newer} newer, {diff.cards.older} older, {diff.cards.unchanged} unchanged
+              </DiffSection>
+
+              <DiffSection label="Session history">
+                {diff.learningSessions.added} new learning sessions (local {diff.learningSessions.local}),{" "}
+                {diff.sessions.added} new practice sessions (local {diff.sessions.local})
+              </DiffSection>
+
+              <DiffSection label="Difficulty">
+                {diff.difficulty.local ? DIFFICULTY_TIERS[diff.difficulty.local].name : "—"} →{" "}
+                {diff.difficulty.imported ? DIFFICULTY_TIERS[diff.difficulty.imported].name : "—"}
+              </DiffSection>
+
+              <DiffSection label="Personal bests">
+                {diff.personalBests.length === 0 ? "No changes" : diff.personalBests.map(({ mode, local, imported }) => (
+                  <div key={mode}>
+                    {MODE_NAMES[mode]}: {local ? `${local.pieces} pieces` : "—"} → {imported ? `${imported.pieces} pieces` : "—"}
+                  </div>
+                ))}
+              </DiffSection>
+            </div>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction variant="outline" disabled={saving} onClick={() => applyImport(true)}>
+              Merge
+            </AlertDialogAction>
+            <AlertDialogAction variant="destructive" disabled={saving} onClick={() => applyImport(false)}>
+              Replace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function DiffSection({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">{label}</div>
+      <div>{children}</div>
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+"use client";
+
+import { useState, useRef, useEffect, useCallback, ChangeEvent } from "react";
+import Link from "next/link";
+import { TetrisCanvas } from "@/components/tetris-canvas";
+import { MODE_NAMES } from "@/components/tetris-board";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ArrowLeft, Download, Pause, Play, Trash2, Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MOVE_NAMES } from "@/lib/finesse-data";
+import { FAULT_NAMES } from "@/lib/finesse-grader";
+import { Grid, Piece, createEmptyGrid } from "@/lib/board";
+import {
+  Replay,
+  ReplayPiece,
+  ReplayPlayer,
+  loadReplays,
+  saveReplay,
+  deleteReplay,
+  isReplay,
+} from "@/lib/replay";
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+function formatTime(ms: number): string {
+  const totalSeconds = ms / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Replay viewer - plays stored sessions back through the engine with a
+ * scrubbable timeline and the finesse verdict of every piece
+ */
+export function ReplayViewer() {
+  const [replays, setReplays] = useState<Replay[]>([]);
+  const [player, setPlayer] = useState<ReplayPlayer | null>(null);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [grid, setGrid] = useState<Grid>(createEmptyGrid);
+  const [targetPiece, setTargetPiece] = useState<Piece | null>(null);
+  const [selectedPiece, setSelectedPiece] = useState<number | null>(null);
+
+  const currentPieceRef = useRef<Piece | null>(null);
+  const timeRef = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load stored replays on mount
+  useEffect(() => {
+    loadReplays().then(setReplays);
+  }, []);
+
+  // Move playback and mirror the engine state for the canvas
+  const seekTo = useCallback((target: ReplayPlayer, newTime: number) => {
+    target.seek(newTime);
+    const { state } = target.engine;
+    currentPieceRef.current = state.currentPiece;
+    timeRef.current = target.time;
+    setTime(target.time);
+    setGrid(state.grid);
+    setTargetPiece(target.engine.getTargetPiece());
+  }, []);
+
+  const selectReplay = useCallback((replay: Replay) => {
+    const newPlayer = new ReplayPlayer(replay);
+    setPlayer(newPlayer);
+    setPlaying(false);
+    setSelectedPiece(null);
+    seekTo(newPlayer, 0);
+  }, [seekTo]);
+
+  // Playback loop
+  useEffect(() => {
+    if (!playing || !player) return;
+
+    let rafId: number;
+    let last = performance.now();
+
+    const loop = (now: number) => {
+      const next = Math.min(timeRef.current + (now - last) * speed, player.replay.duration);
+      last = now;
+      seekTo(player, next);
+      if (next >= player.replay.duration) {
+        setPlaying(false);
+        return;
+      }
+      rafId = requestAnimationFrame(loop);
+    };
+
+    rafId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(rafId);
+  }, [playing, player, speed, seekTo]);
+
+  const togglePlaying = () => {
+    if (!player) return;
+    // Restart from the beginning when at the end
+    if (!playing && timeRef.current >= player.replay.duration) {
+      seekTo(player, 0);
+    }
+    setPlaying(!playing);
+  };
+
+  const jumpToPiece = (index: number, piece: ReplayPiece) => {
+    if (!player) return;
+    setPlaying(false);
+    setSelectedPiece(index);
+    // Just before the drop, with the piece in its final position
+    seekTo(player, piece.time - 1);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!isReplay(parsed)) {
+        alert('This file is not a supported replay.');
+        return;
+      }
+      await saveReplay(parsed);
+      setReplays(await loadReplays());
+      selectReplay(parsed);
+    } catch {
+      alert('Could not read replay file.');
+    }
+  };
+
+  const handleExport = (replay: Replay) => {
+    const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `finesse-replay-${replay.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = (replay: Replay) => {
+    deleteReplay(replay.id).then(loadReplays).then(setReplays);
+    if (player?.replay.id === replay.id) {
+      setPlayer(null);
+      setPlaying(false);
+      currentPieceRef.current = null;
+      setGrid(createEmptyGrid());
+      setTargetPiece(null);
+    }
+  };
+
+  const duration = player?.replay.duration ?? 0;
+  const pieces = player?.pieces ?? [];
+  const faults = pieces.filter(piece => !piece.verdict.correct).length;
+  const shownPiece = selectedPiece !== null ? pieces[selectedPiece] : null;
+
+  return (
+    <div className="h-screen flex flex-col overflow-hidden bg-background text-foreground text-xs">
+      <header className="flex items-center justify-between px-4 py-2 border-b border-border/40 bg-background/50 backdrop-blur-md shrink-0 z-10 h-10">
+        <div className="flex items-center gap-3">
+          <Link href="/">
+            <Button variant="ghost" size="icon" className="h-6 w-6">
+              <ArrowLeft className="h-3.5 w-3.5" />
+            </Button>
+          </Link>
+          <h1 className="text-base font-bold tracking-tight">
+            Finesse <span className="text-primary">Replays</span>
+          </h1>
+        </div>
+        <Button variant="outline" size="sm" className="h-6 gap-1 text-xs" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-3 w-3" />
+          Import
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </header>
+
+      <div className="flex-1 flex justify-center items-start gap-4 p-4 overflow-hidden">
+        {/* Left Column: Stored Replays */}
+        <div className="flex flex-col gap-2 w-[240px] shrink-0 h-full overflow-y-auto pr-1 custom-scrollbar">
+          <div className="text-[9px] font-bold text-muted-foreground tracking-wider uppercase">Sessions</div>
+          {replays.length === 0 && (
+            <div className="text-[10px] text-muted-foreground italic">
+              No replays yet. Every session you play is recorded here.
+            </div>
+          )}
+          {replays.map(replay => (
+            <Card
+              key={replay.id}
+              className={cn(
+                "p-2 bg-card/50 border-border/50 cursor-pointer hover:border-primary transition-colors",
+                player?.replay.id === replay.id && "border-primary"
+              )}
+              onClick={() => selectReplay(replay)}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-bold">{MODE_NAMES[replay.mode]}</span>
+                <span className="text-[10px] text-muted-foreground">{formatDate(replay.createdAt)}</span>
+              </div>
+              <div className="flex items-center justify-between mt-1 text-[10px] text-muted-foreground">
+                <span>{replay.pieces} pieces · {formatTime(replay.duration)}</span>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5"
+                    onClick={(e) => { e.stopPropagation(); handleExport(replay); }}
+                  >
+                    <Download className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5"
+                    onClick={(e) => { e.stopPropagation(); handleDelete(replay); }}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+              <div className="text-[10px] font-mono text-muted-foreground mt-0.5">Seed {replay.seed}</div>
+            </Card>
+          ))}
+        </div>
+
+        {/* Center Column: Board and Timeline */}
+        <div className="flex flex-col items-center gap-2 shrink-0 pt-2">
+          <div className="relative p-1 rounded-xl bg-gradient-to-b from-border/20 to-border/5 shadow-2xl">
+            <Card className="p-1 border-0 bg-black/80 shadow-inner">
+              <TetrisCanvas
+                grid={grid}
+                currentPieceRef={currentPieceRef}
+                targetPiece={targetPiece}
+                showGhost={true}
+                gameMode={player?.replay.mode ?? 'RANDOM'}
+              />
+            </Card>
+          </div>
+
+          <div className="w-[360px] space-y-2">
+            {/* Fault markers above the scrubber */}
+            <div className="relative h-2">
+              {duration > 0 && pieces.map((piece, index) => (
+                <button
+                  key={index}
+                  className={cn(
+                    "absolute top-0 h-2 w-1 -translate-x-1/2 rounded-sm",
+                    piece.verdict.correct ? "bg-primary/40" : "bg-destructive"
+                  )}
+                  style={{ left: `${(piece.time / duration) * 100}%` }}
+                  onClick={() => jumpToPiece(index, piece)}
+                />
+              ))}
+            </div>
+            <Slider
+              value={[time]}
+              min={0}
+              max={Math.max(duration, 1)}
+              step={1}
+              disabled={!player}
+              onValueChange={([val]) => {
+                if (!player) return;
+                setPlaying(false);
+                seekTo(player, val);
+              }}
+              className="w-full"
+            />
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Button size="sm" className="h-7 gap-1 text-xs" onClick={togglePlaying} disabled={!player}>
+                  {playing ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+                  {playing ? "PAUSE" : "PLAY"}
+                </Button>
+                {PLAYBACK_SPEEDS.map(value => (
+                  <Button
+                    key={value}
+                    size="sm"
+                    variant={speed === value ? "default" : "outline"}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setSpeed(value)}
+                  >
+                    {value}x
+                  </Button>
+                ))}
+              </div>
+              <span className="font-mono text-muted-foreground">
+                {formatTime(time)} / {formatTime(duration)}
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {/* Right Column: Per-piece Verdicts */}
+        <div className="flex flex-col gap-3 w-[240px] shrink-0 h-full overflow-y-auto pl-1 custom-scrollbar">
+          {shownPiece && (
+            <Card className="p-3 bg-card/50 backdrop-blur-sm border-border/50">
+              <div className="text-[9px] font-bold mb-2 text-muted-foreground tracking-wider uppercase">
+                Piece {selectedPiece! + 1} · {shownPiece.type}
+              </div>
+              <div className={cn("text-xs font-semibold mb-1", shownPiece.verdict.correct ? "text-primary" : "text-destructive")}>
+                {shownPiece.verdict.fault ? FAULT_NAMES[shownPiece.verdict.fault] : shownPiece.verdict.correct ? "Correct" : "Fault"}
+                {shownPiece.rejected && " (rejected)"}
+              </div>
+              <div className="space-y-0.5">
+                {shownPiece.moves.map((move, index) => (
+                  <div
+                    key={index}
+                    className={cn(
+                      "text-xs font-mono",
+                      index === shownPiece.verdict.inputIndex ? "text-destructive font-bold" : "text-muted-foreground"
+                    )}
+                  >
+                    {MOVE_NAMES[move]}{index === shownPiece.verdict.inputIndex ? ' ←' : ''}
+                  </div>
+                ))}
+              </div>
+              {shownPiece.verdict.expected && (
+                <div className="text-xs text-muted-foreground mt-1">
+                  Expected: {shownPiece.verdict.expected.map(move => MOVE_NAMES[move]).join(', ')}
+                </div>
+              )}
+            </Card>
+          )}
+
+          <Card className="p-3 bg-card/50 backdrop-blur-sm border-border/50">
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-[9px] font-bold text-muted-foreground tracking-wider uppercase">Pieces</div>
+              {player && (
+                <span className="text-[10px] text-muted-foreground">
+                  {faults} {faults === 1 ? 'fault' : 'faults'}
+                </span>
+              )}
+            </div>
+            {!player && (
+              <div className="text-[10px] text-muted-foreground italic">Select a session to review</div>
+            )}
+            <div className="space-y-0.5">
+              {pieces.map((piece, index) => (
+                <button
+                  key={index}
+                  onClick={() => jumpToPiece(index, piece)}
+                  className={cn(
+                    "w-full flex items-center justify-between px-1.5 py-0.5 rounded text-left hover:bg-accent",
+                    selectedPiece === index && "bg-accent"
+                  )}
+                >
+                  <span className="font-mono">
+                    {index + 1}. {piece.type}
+                  </span>
+                  <span className={cn("text-[10px]", piece.verdict.correct ? "text-muted-foreground" : "text-destructive font-semibold")}>
+                    {piece.verdict.correct ? "✓" : piece.verdict.fault ? FAULT_NAMES[piece.verdict.fault] : "Fault"}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
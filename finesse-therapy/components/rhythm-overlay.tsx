@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useLayoutEffect, useState, useRef, useCallback } from 'react';
-import { HitJudgment, JUDGMENT_COLORS, TIMING_BAR_MAX_TIME, useRhythmSystem } from '@/hooks/use-rhythm-system';
+import { HitJudgment, JUDGMENT_COLORS, TimingThresholds, useRhythmSystem } from '@/hooks/use-rhythm-system';
 
 interface RhythmOverlayProps {
   targetX: number;  // Target piece X position in grid units
@@ -10,12 +10,28 @@ interface RhythmOverlayProps {
   active: boolean;
 }
 
+/**
+ * Judgment zones as fractions of the timing bar - last zone is SLOW
+ * (timing expired) not MISS (wrong move)
+ */
+function getTimingZones(thresholds: TimingThresholds, perfectRequired: boolean, maxTime: number) {
+  const zones = [{ name: 'PERFECT', end: thresholds.PERFECT / maxTime, color: JUDGMENT_COLORS.PERFECT }];
+  if (!perfectRequired) {
+    zones.push(
+      { name: 'GREAT', end: thresholds.GREAT / maxTime, color: JUDGMENT_COLORS.GREAT },
+      { name: 'GOOD', end: thresholds.GOOD / maxTime, color: JUDGMENT_COLORS.GOOD },
+    );
+  }
+  zones.push({ name: 'SLOW', end: 1.0, color: JUDGMENT_COLORS.TOO_SLOW });
+  return zones;
+}
+
 /**
  * Timing ring that shrinks around the target position
  * Uses direct DOM manipulation for smooth animation
  */
 export function TimingRing({ targetX, targetY, cellSize, active }: RhythmOverlayProps) {
-  const { state, getCurrentTiming } = useRhythmSystem();
+  const { state, getCurrentTiming, thresholds, perfectRequired, timingBarMaxTime } = useRhythmSystem();
   const { ringActive, patternStartTime, isPaused } = state;
   const containerRef = useRef<HTMLDivElement>(null);
   const outerCircleRef = useRef<SVGCircleElement>(null);
@@ -34,17 +50,15 @@ export function TimingRing({ targetX, targetY, cellSize, active }: RhythmOverlay
       return;
     }
 
+    const zones = getTimingZones(thresholds, perfectRequired, timingBarMaxTime);
     const getColor = (progress: number) => {
-      if (progress < 0.2) return '#ffd700';  // PERFECT - gold
-      if (progress < 0.4) return '#22c55e';  // GREAT - green
-      if (progress < 0.75) return '#3b82f6'; // GOOD - blue
-      return '#f97316';                      // TOO SLOW - orange
+      return (zones.find(zone => progress < zone.end) ?? zones[zones.length - 1]).color;
     };
 
     const animate = () => {
       if (containerRef.current) {
         const elapsed = getCurrentTiming();
-        const progress = Math.min(elapsed / TIMING_BAR_MAX_TIME, 1);
+        const progress = Math.min(elapsed / timingBarMaxTime, 1);
         const currentRadius = maxRadius - (maxRadius - minRadius) * progress;
         const color = getColor(progress);
         const opacity = Math.max(0.3, 1 - progress * 0.5);
@@ -73,7 +87,7 @@ export function TimingRing({ targetX, targetY, cellSize, active }: RhythmOverlay
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [active, ringActive, patternStartTime, isPaused, getCurrentTiming, centerX, centerY, maxRadius, minRadius]);
+  }, [active, ringActive, patternStartTime, isPaused, getCurrentTiming, thresholds, perfectRequired, timingBarMaxTime, centerX, centerY, maxRadius, minRadius]);
 
   if (!active || !ringActive) return null;
 
@@ -298,7 +312,7 @@ function StatRow({ label, value, highlight = false }: { label: string; value: st
  * Uses direct DOM manipulation for smooth 60fps animation
  */
 export function TimingBar() {
-  const { state, getCurrentTiming } = useRhythmSystem();
+  const { state, getCurrentTiming, thresholds, perfectRequired, timingBarMaxTime } = useRhythmSystem();
   const { ringActive, patternStartTime, isPaused } = state;
   const indicatorRef = useRef<HTMLDivElement>(null);
   const animationFrameRef = useRef<number | null>(null);
@@ -324,7 +338,7 @@ export function TimingBar() {
     // Reset to start position when pattern becomes active
     if (indicatorRef.current && patternStartTime) {
       const elapsed = getCurrentTiming();
-      const progress = Math.min(elapsed / TIMING_BAR_MAX_TIME, 1);
+      const progress = Math.min(elapsed / timingBarMaxTime, 1);
       indicatorRef.current.style.left = `${progress * 100}%`;
     }
 
@@ -335,7 +349,7 @@ export function TimingBar() {
 
       if (indicatorRef.current) {
         const elapsed = getCurrentTiming();
-        const progress = Math.min(elapsed / TIMING_BAR_MAX_TIME, 1);
+        const progress = Math.min(elapsed / timingBarMaxTime, 1);
         indicatorRef.current.style.left = `${progress * 100}%`;
       }
 
@@ -354,17 +368,11 @@ export function TimingBar() {
         animationFrameRef.current = null;
       }
     };
-  }, [ringActive, patternStartTime, isPaused, getCurrentTiming]);
+  }, [ringActive, patternStartTime, isPaused, getCurrentTiming, timingBarMaxTime]);
 
   if (!ringActive) return null;
 
-  // Zones - last zone is SLOW (timing expired) not MISS (wrong move)
-  const zones = [
-    { name: 'PERFECT', end: 0.2, color: JUDGMENT_COLORS.PERFECT },
-    { name: 'GREAT', end: 0.4, color: JUDGMENT_COLORS.GREAT },
-    { name: 'GOOD', end: 0.75, color: JUDGMENT_COLORS.GOOD },
-    { name: 'SLOW', end: 1.0, color: JUDGMENT_COLORS.TOO_SLOW },
-  ];
+  const zones = getTimingZones(thresholds, perfectRequired, timingBarMaxTime);
 
   return (
     <div className="relative h-3 bg-muted rounded-full overflow-hidden border">
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { DIFFICULTY_TIERS, useDifficultySystem } from "@/hooks/use-difficulty-system";
+import { JUDGMENT_COLORS, useRhythmSystem } from "@/hooks/use-rhythm-system";
+import {
+  RhythmSessionStats,
+  SESSION_STARTED_AT,
+  SessionHistoryEntry,
+  TierChange,
+  loadSessionHistory,
+} from "@/lib/session-history";
+
+// Past sessions shown
+const PAST_SESSIONS_SHOWN = 5;
+
+function formatSessionDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Tier changes and rhythm scores of this session and recent ones
+ */
+export function SessionHistory() {
+  const { state: difficulty } = useDifficultySystem();
+  const { state: rhythm } = useRhythmSystem();
+  const [pastSessions, setPastSessions] = useState<SessionHistoryEntry[]>([]);
+
+  // Past sessions only change between visits - load them once (client-only)
+  useEffect(() => {
+    loadSessionHistory().then(sessions => setPastSessions(
+      sessions
+        .filter(session => session.startedAt !== SESSION_STARTED_AT)
+        .slice(0, PAST_SESSIONS_SHOWN)
+    ));
+  }, []);
+
+  return (
+    <Card className="p-3 bg-card/50 backdrop-blur-sm border-border/50 shrink-0 space-y-3">
+      <span className="text-[9px] font-bold uppercase tracking-widest text-muted-foreground">Session History</span>
+
+      <SessionRow
+        label="This session"
+        tierChanges={difficulty.tierChanges}
+        rhythm={rhythm.session}
+      />
+
+      {pastSessions.map(session => (
+        <SessionRow
+          key={session.startedAt}
+          label={formatSessionDate(session.startedAt)}
+          tierChanges={session.tierChanges}
+          rhythm={session.rhythm}
+        />
+      ))}
+    </Card>
+  );
+}
+
+function SessionRow({
+  label,
+  tierChanges,
+  rhythm,
+}: {
+  label: string;
+  tierChanges: TierChange[];
+  rhythm: RhythmSessionStats | null;
+}) {
+  return (
+    <div className="space-y-1 text-[10px]">
+      <div className="flex items-center justify-between">
+        <span className="font-bold text-foreground">{label}</span>
+        {rhythm && (
+          <span className="text-muted-foreground">
+            <span className="font-bold text-foreground">{rhythm.score.toLocaleString()}</span> pts, {rhythm.maxCombo} max combo
+          </span>
+        )}
+      </div>
+
+      {rhythm && (
+        <div className="flex gap-2">
+          {(Object.keys(rhythm.judgments) as (keyof typeof JUDGMENT_COLORS)[]).map(judgment => (
+            <span key={judgment} style={{ color: JUDGMENT_COLORS[judgment] }}>
+              {judgment.replace("_", " ")} {rhythm.judgments[judgment]}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {tierChanges.length > 0 ? (
+        <div className="flex flex-wrap gap-x-2 text-muted-foreground">
+          {tierChanges.map(change => (
+            <span key={change.at}>
+              {formatTime(change.at)}{" "}
+              <span style={{ color: DIFFICULTY_TIERS[change.from].color }}>{DIFFICULTY_TIERS[change.from].name}</span>
+              {" → "}
+              <span style={{ color: DIFFICULTY_TIERS[change.to].color }}>{DIFFICULTY_TIERS[change.to].name}</span>
+            </span>
+          ))}
+        </div>
+      ) : (
+        <div className="text-muted-foreground/60">No tier changes</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Play } from "lucide-react";
+import { GameScore, SprintState, SPRINT_LINES, getSprintTime } from "@/lib/game-engine";
+import { FAULT_NAMES } from "@/lib/finesse-grader";
+
+/**
+ * Format a sprint time as m:ss.mmm
+ */
+export function formatSprintTime(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = ((ms % 60000) / 1000).toFixed(3).padStart(6, '0');
+  return `${minutes}:${seconds}`;
+}
+
+interface SprintTimerProps {
+  sprint: SprintState;
+  getTime: () => number;
+  className?: string;
+}
+
+/**
+ * Running sprint clock, including penalties. Updated every frame through
+ * the DOM so the page doesn't re-render at 60fps.
+ */
+export function SprintTimer({ sprint, getTime, className }: SprintTimerProps) {
+  const timeRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    let rafId: number;
+    const update = () => {
+      if (timeRef.current) {
+        timeRef.current.textContent = formatSprintTime(getSprintTime(sprint, getTime()).total);
+      }
+      if (sprint.finishedAt === null) {
+        rafId = requestAnimationFrame(update);
+      }
+    };
+    update();
+    return () => cancelAnimationFrame(rafId);
+  }, [sprint, getTime]);
+
+  return <span ref={timeRef} className={className} />;
+}
+
+interface SprintPanelProps {
+  sprint: SprintState | null;
+  lines: number;
+  getTime: () => number;
+}
+
+/**
+ * Sprint progress card - time, lines and faults
+ */
+export function SprintPanel({ sprint, lines, getTime }: SprintPanelProps) {
+  return (
+    <Card className="p-3 bg-card/50 backdrop-blur-sm border-border/50">
+      <div className="text-[9px] font-bold mb-2 text-muted-foreground tracking-wider uppercase">Sprint</div>
+      <div className="text-2xl font-mono font-black text-center mb-2">
+        {sprint ? <SprintTimer sprint={sprint} getTime={getTime} /> : formatSprintTime(0)}
+      </div>
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Lines</span>
+          <span className="font-mono font-bold text-primary">
+            {Math.min(lines, SPRINT_LINES)}/{SPRINT_LINES}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Faults</span>
+          <span className={`font-mono font-bold ${sprint && sprint.faults.length > 0 ? "text-destructive" : ""}`}>
+            {sprint?.faults.length ?? 0}
+          </span>
+        </div>
+        {sprint && sprint.penaltyMs > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Penalty</span>
+            <span className="font-mono font-bold">
+              +{(sprint.faults.length * sprint.penaltyMs / 1000).toFixed(1)}s
+            </span>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+interface SprintResultsProps {
+  sprint: SprintState;
+  score: GameScore;
+  lines: number;
+  onRestart: () => void;
+}
+
+/**
+ * Finish screen for a completed or topped out sprint
+ */
+export function SprintResults({ sprint, score, lines, onRestart }: SprintResultsProps) {
+  const { time, penalty, total } = getSprintTime(sprint, sprint.finishedAt ?? sprint.startedAt);
+  const pps = time > 0 ? score.total / (time / 1000) : 0;
+  const finessePercent = score.total > 0 ? ((score.correct / score.total) * 100).toFixed(1) : "0.0";
+
+  return (
+    <div className="text-center space-y-3 p-5 bg-card border rounded-xl shadow-2xl w-[280px] animate-in fade-in zoom-in duration-300">
+      <div>
+        <h2 className="text-2xl font-black tracking-tight text-primary">
+          {sprint.complete ? "Sprint Complete" : "Topped Out"}
+        </h2>
+        <p className="text-muted-foreground text-[10px] mt-0.5">
+          {sprint.complete ? `${SPRINT_LINES} lines` : `${lines} of ${SPRINT_LINES} lines`}
+        </p>
+      </div>
+
+      <div>
+        <div className="text-3xl font-mono font-black">{formatSprintTime(total)}</div>
+        {penalty > 0 && (
+          <div className="text-[10px] font-mono text-muted-foreground">
+            {formatSprintTime(time)} + {(penalty / 1000).toFixed(1)}s penalty
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-[10px]">
+        <div>
+          <div className="text-muted-foreground uppercase tracking-wider">Pieces</div>
+          <div className="font-mono font-bold text-sm">{score.total}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground uppercase tracking-wider">PPS</div>
+          <div className="font-mono font-bold text-sm">{pps.toFixed(2)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground uppercase tracking-wider">Finesse</div>
+          <div className="font-mono font-bold text-sm text-primary">{finessePercent}%</div>
+        </div>
+      </div>
+
+      <div className="text-left">
+        <div className="text-[9px] font-bold mb-1 text-muted-foreground tracking-wider uppercase">
+          Faults ({sprint.faults.length})
+        </div>
+        {sprint.faults.length === 0 ? (
+          <div className="text-[10px] text-muted-foreground italic">Perfect finesse</div>
+        ) : (
+          <div className="max-h-32 overflow-y-auto custom-scrollbar space-y-0.5">
+            {sprint.faults.map((fault) => (
+              <div key={fault.piece} className="flex justify-between text-[10px]">
+                <span className="font-mono text-muted-foreground">#{fault.piece} {fault.type}</span>
+                <span className="text-destructive">
+                  {fault.verdict.fault ? FAULT_NAMES[fault.verdict.fault] : "Fault"}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Button size="sm" className="w-full gap-2" onClick={onRestart}>
+        <Play className="h-3 w-3" />
+        SPACE to Retry
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { isStorageAvailable } from "@/lib/storage";
+
+/**
+ * Warns when saved data couldn't be loaded - the app runs on defaults and
+ * saves nothing until the page is reloaded
+ */
+export function StorageWarning() {
+  const [available, setAvailable] = useState(true);
+
+  useEffect(() => {
+    isStorageAvailable().then(setAvailable);
+  }, []);
+
+  if (available) return null;
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-3 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 p-2 px-3 bg-background/90 backdrop-blur-md border border-destructive/40 rounded-lg text-xs text-destructive shadow-lg"
+    >
+      <AlertTriangle className="h-4 w-4 shrink-0" />
+      Saved data couldn&apos;t be loaded, so nothing from this visit will be saved. Reload the page to try again.
+    </div>
+  );
+}
@@ -3,18 +3,22 @@
 import { useTetrisGame, GameMode } from "@/hooks/use-tetris-game";
 import { useKeyBindings } from "@/hooks/use-key-bindings";
 import { useGameSettings } from "@/hooks/use-game-settings";
-import { useRhythmSystem, HitJudgment, TIMING_THRESHOLDS } from "@/hooks/use-rhythm-system";
+import { useRhythmSystem, HitJudgment } from "@/hooks/use-rhythm-system";
 import { useDifficultySystem } from "@/hooks/use-difficulty-system";
 import { useVisualEffects } from "@/hooks/use-visual-effects";
+import { LearningProgressContext } from "@/hooks/use-learning-progress";
 import { TETROMINO_SHAPES, TetrominoType } from "@/lib/types";
-import { MOVE_NAMES, FinesseMove } from "@/lib/finesse-data";
+import { MOVE_NAMES, FinesseMove, normalize180, getCanonicalMoves } from "@/lib/finesse-data";
+import { isStackingMode, supportsMasterMode } from "@/lib/game-engine";
+import { FAULT_NAMES } from "@/lib/finesse-grader";
+import { DRILL_CLEAR_STREAK, createPatternId } from "@/lib/scheduler";
 import { TetrisCanvas } from "@/components/tetris-canvas";
 import { JudgmentDisplay, TimingBar, RhythmStats } from "@/components/rhythm-overlay";
 import { DifficultyStats, DifficultyIndicator, FlowIndicator } from "@/components/difficulty-display";
 import { VisualEffectsLayer, ParticleRenderer } from "@/components/visual-effects";
-import { useEffect, useRef, useCallback } from "react";
+import { useEffect, useRef, useCallback, useContext } from "react";
 
-const MODE_NAMES: Record<GameMode, string> = {
+export const MODE_NAMES: Record<GameMode, string> = {
   'RANDOM': 'All Random',
   'Z_ONLY': 'Z Only',
   'S_ONLY': 'S Only',
@@ -24,19 +28,31 @@ const MODE_NAMES: Record<GameMode, string> = {
   'L_ONLY': 'L Only',
   'J_ONLY': 'J Only',
   'FREE_STACK': 'Free Stack',
+  'SPRINT_40L': 'Sprint 40L',
   'LEARNING': 'Learning Mode',
 };
 
 export function TetrisBoard() {
   const game = useTetrisGame();
-  const { grid, currentPiece, currentPieceRef, nextQueue, holdPiece, canHold, score, gameOver, gameMode, target, currentMoves, startGame, handleAction, getTargetPiece, validateCurrentPlacement, resetPiece } = game;
-  const { getAction } = useKeyBindings();
+  const { grid, currentPiece, currentPieceRef, nextQueue, holdPiece, canHold, score, gameOver, gameMode, target, currentMoves, lastResult, startGame, handleAction, setGamepadHandler, getTargetPiece, validateCurrentPlacement, recordReview, resetPiece } = game;
+  const { getAction, getButtonAction } = useKeyBindings();
   const { settings } = useGameSettings();
   const rhythm = useRhythmSystem();
-  const { startPattern, recordHit, resetRhythm, getCurrentTiming, pauseTimer, resumeTimer } = rhythm;
+  const { startPattern, recordHit, resetRhythm, getCurrentTiming, pauseTimer, resumeTimer, timeLimit } = rhythm;
   const difficulty = useDifficultySystem();
   const visualEffects = useVisualEffects();
 
+  // Master Mode hides every hint in the modes it applies to
+  const masterActive = settings.masterMode && supportsMasterMode(gameMode);
+
+  // Learning progress context (optional - only available when provider is mounted)
+  const learningContext = useContext(LearningProgressContext);
+  const drillPattern = learningContext?.progress.drill;
+  const drill = gameMode === 'LEARNING' && drillPattern && currentPiece && target &&
+    drillPattern.patternId === createPatternId(currentPiece.type, target.column, target.rotation)
+    ? drillPattern
+    : null;
+
   // Track piece changes to start rhythm timing
   const lastDropTimeRef = useRef(0);
   const comboBeforeDropRef = useRef(0);
@@ -56,11 +72,14 @@ export function TetrisBoard() {
     }
   }, [currentPiece, gameMode, gameOver, startPattern]);
 
-  // Reset rhythm when game restarts
+  // Reset rhythm when a game ends - not on load, so persisted stats survive
+  // a reload
+  const wasGameOverRef = useRef(gameOver);
   useEffect(() => {
-    if (gameOver) {
+    if (gameOver && !wasGameOverRef.current) {
       resetRhythm();
     }
+    wasGameOverRef.current = gameOver;
   }, [gameOver, resetRhythm]);
 
   // Ref for game container to detect clicks outside
@@ -137,13 +156,14 @@ export function TetrisBoard() {
 
     // Calculate how long until timeout based on current elapsed time
     const currentElapsed = getCurrentTiming();
-    const timeUntilTimeout = TIMING_THRESHOLDS.GOOD - currentElapsed + 50; // +50ms buffer
+    const timeUntilTimeout = timeLimit - currentElapsed + 50; // +50ms buffer
 
     if (timeUntilTimeout <= 0) {
       // Already timed out
       const judgment = recordHit(false, 'timeout');
       visualEffects.triggerJudgmentEffect(judgment, 140, 280);
       difficulty.recordAttempt(false, currentElapsed);
+      recordReview(false, judgment);
       resetPiece(false);
       startPattern();
       return;
@@ -152,20 +172,21 @@ export function TetrisBoard() {
     // Schedule timeout trigger
     const timeoutId = setTimeout(() => {
       const currentTiming = getCurrentTiming();
-      if (currentTiming > TIMING_THRESHOLDS.GOOD) {
+      if (currentTiming > timeLimit) {
         const judgment = recordHit(false, 'timeout');
         visualEffects.triggerJudgmentEffect(judgment, 140, 280);
         difficulty.recordAttempt(false, currentTiming);
+        recordReview(false, judgment);
         resetPiece(false);
         startPattern();
       }
     }, timeUntilTimeout);
 
     return () => clearTimeout(timeoutId);
-  }, [gameMode, gameOver, ringActive, patternStartTime, isPaused, getCurrentTiming, recordHit, visualEffects, difficulty, resetPiece, startPattern]);
+  }, [gameMode, gameOver, ringActive, patternStartTime, isPaused, timeLimit, getCurrentTiming, recordHit, visualEffects, difficulty, recordReview, resetPiece, startPattern]);
 
   // Wrap handleAction to record rhythm hits and difficulty on hard drop
-  const handleActionWithRhythm = useCallback((action: string, isKeyDown: boolean) => {
+  const handleActionWithRhythm = useCallback((action: string, isKeyDown: boolean, timestamp?: number) => {
     if (action === 'HARD_DROP' && isKeyDown && !gameOver && gameMode === 'LEARNING') {
       const currentTiming = getCurrentTiming();
       const effectX = 140;
@@ -179,27 +200,31 @@ export function TetrisBoard() {
         const judgment = recordHit(false, 'wrong');
         visualEffects.triggerJudgmentEffect(judgment, effectX, effectY);
         difficulty.recordAttempt(false, currentTiming);
+        recordReview(false, judgment);
         resetPiece(false); // Reset piece position for retry
         startPattern();
         return;
       }
 
       // 2. Placement is correct - check timing
-      if (currentTiming > TIMING_THRESHOLDS.GOOD) {
+      if (currentTiming > timeLimit) {
         // TOO_SLOW - correct placement but took too long
         const judgment = recordHit(false, 'timeout');
         visualEffects.triggerJudgmentEffect(judgment, effectX, effectY);
         difficulty.recordAttempt(false, currentTiming);
+        // The placement was right, just late
+        recordReview(true, judgment);
         resetPiece(false); // Reset piece position for retry
         startPattern();
         return;
       }
 
-      // 3. Placement is correct and within time - proceed with drop
-      handleAction(action, isKeyDown);
-
-      // Record the correct hit with timing-based judgment
+      // 3. Placement is correct and within time - record the correct hit
+      // with timing-based judgment, then proceed with drop
       const judgment = recordHit(true);
+      recordReview(true, judgment);
+      handleAction(action, isKeyDown, timestamp);
+
       visualEffects.triggerJudgmentEffect(judgment, effectX, effectY);
       difficulty.recordAttempt(true, currentTiming);
 
@@ -207,8 +232,8 @@ export function TetrisBoard() {
       startPattern();
       return;
     }
-    handleAction(action, isKeyDown);
-  }, [handleAction, gameOver, gameMode, getCurrentTiming, recordHit, difficulty, visualEffects, startPattern, validateCurrentPlacement, resetPiece]);
+    handleAction(action, isKeyDown, timestamp);
+  }, [handleAction, gameOver, gameMode, timeLimit, getCurrentTiming, recordHit, difficulty, visualEffects, startPattern, validateCurrentPlacement, recordReview, resetPiece]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -238,8 +263,23 @@ export function TetrisBoard() {
     };
   }, [getAction, handleActionWithRhythm]);
 
+  // Gamepad buttons go through the same path as keys, polled by the game loop
+  useEffect(() => {
+    setGamepadHandler((button, pressed, timestamp) => {
+      // Any button resumes a paused timer, like any key does
+      if (pressed && isPaused && gameMode === 'LEARNING') {
+        resumeTimer();
+      }
+      const action = getButtonAction(button);
+      if (action) {
+        handleActionWithRhythm(action, pressed, timestamp);
+      }
+    });
+    return () => setGamepadHandler(null);
+  }, [getButtonAction, handleActionWithRhythm, setGamepadHandler, isPaused, gameMode, resumeTimer]);
+
   const renderGrid = () => {
-    const targetPiece = getTargetPiece();
+    const targetPiece = masterActive ? null : getTargetPiece();
 
     return (
       <VisualEffectsLayer>
@@ -248,7 +288,7 @@ export function TetrisBoard() {
             grid={grid}
             currentPieceRef={currentPieceRef}
             targetPiece={targetPiece}
-            showGhost={settings.showGhost}
+            showGhost={settings.showGhost && !masterActive}
             gameMode={gameMode}
           />
           {/* Rhythm judgment overlay - only in Learning mode */}
@@ -302,42 +342,36 @@ export function TetrisBoard() {
   };
 
   const renderTargetMoves = () => {
-    if (!target || !target.moves || target.moves.length === 0 || gameMode === 'FREE_STACK') {
+    if (!target || !target.moves || target.moves.length === 0 || isStackingMode(gameMode)) {
       return null;
     }
 
-    // Convert consecutive C,C or CC,CC to 180 for display
-    const formatMoves = (moves: FinesseMove[]): string[] => {
-      const result: string[] = [];
-      let i = 0;
-      while (i < moves.length) {
-        // Check for C,C -> 180
-        if (i < moves.length - 1 && moves[i] === 'C' && moves[i + 1] === 'C') {
-          result.push('180');
-          i += 2;
-        }
-        // Check for CC,CC -> 180
-        else if (i < moves.length - 1 && moves[i] === 'CC' && moves[i + 1] === 'CC') {
-          result.push('180');
-          i += 2;
-        }
-        else {
-          result.push(MOVE_NAMES[moves[i]]);
-          i++;
-        }
-      }
-      return result;
-    };
+    if (masterActive) {
+      return (
+        <div className="text-center space-y-1">
+          <div className="text-xs font-bold text-primary uppercase tracking-wider">Master Mode</div>
+          <div className="text-[10px] text-muted-foreground">
+            Column {target.column}, rotation {target.rotation} - no move hints, one fault ends the run
+          </div>
+        </div>
+      );
+    }
+
+    const displaySequences = getCanonicalMoves(target.moves);
+
+    if (drill) {
+      return renderDrillMoves(displaySequences, drill.streak);
+    }
 
     return (
       <div className="space-y-2">
-        {target.moves.map((sequence, seqIndex) => (
+        {displaySequences.map((sequence, seqIndex) => (
           <div key={seqIndex}>
             {seqIndex > 0 && <div className="text-xs text-muted-foreground text-center my-1">OR</div>}
             <div className="space-y-0.5">
-              {formatMoves(sequence).map((moveName, moveIndex) => (
+              {sequence.map((move, moveIndex) => (
                 <div key={moveIndex} className="text-xs font-mono">
-                  {moveName}
+                  {MOVE_NAMES[move]}
                 </div>
               ))}
             </div>
@@ -347,27 +381,77 @@ export function TetrisBoard() {
     );
   };
 
-  // Convert consecutive C,C or CC,CC to 180 for display
+  // Leech drill - walk through one optimal sequence, highlighting the next
+  // input. Follows whichever sequence the inputs so far match.
+  const renderDrillMoves = (sequences: FinesseMove[][], streak: number) => {
+    const moves = normalize180(currentMoves, settings.allow180);
+    const matched = sequences.find(seq =>
+      moves.length < seq.length && moves.every((move, i) => seq[i] === move)
+    );
+    const sequence = matched ?? sequences[0];
+    const step = matched ? moves.length : 0;
+
+    return (
+      <div className="space-y-2">
+        <div className="text-[10px] font-bold text-destructive text-center uppercase tracking-wider">
+          Leech Drill {streak}/{DRILL_CLEAR_STREAK}
+        </div>
+        <div className="space-y-0.5">
+          {sequence.map((move, moveIndex) => (
+            <div
+              key={moveIndex}
+              className={`text-xs font-mono ${
+                moveIndex < step ? 'text-muted-foreground line-through'
+                  : moveIndex === step ? 'text-primary font-bold'
+                    : 'text-muted-foreground'
+              }`}
+            >
+              {moveIndex === step ? '→ ' : ''}{MOVE_NAMES[move]}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // Show inputs the way they are graded - without 180 finesse a 180 is C, C
   const formatMovesForDisplay = (moves: FinesseMove[]): string[] => {
-    const result: string[] = [];
-    let i = 0;
-    while (i < moves.length) {
-      if (i < moves.length - 1 && moves[i] === 'C' && moves[i + 1] === 'C') {
-        result.push('180');
-        i += 2;
-      } else if (i < moves.length - 1 && moves[i] === 'CC' && moves[i + 1] === 'CC') {
-        result.push('180');
-        i += 2;
-      } else {
-        result.push(MOVE_NAMES[moves[i]]);
-        i++;
-      }
-    }
-    return result;
+    return normalize180(moves, settings.allow180).map(move => MOVE_NAMES[move]);
+  };
+
+  // Inputs of the last faulted placement with the wrong input highlighted
+  const renderFaultDiagnosis = () => {
+    if (!lastResult || !lastResult.verdict.fault) return null;
+    const { moves, verdict } = lastResult;
+
+    return (
+      <div className="space-y-1">
+        <div className="text-xs font-semibold text-destructive">
+          {FAULT_NAMES[lastResult.verdict.fault]}
+        </div>
+        <div className="space-y-0.5">
+          {moves.map((move, index) => formatMovesForDisplay([move]).map((moveName, part) => (
+            <div
+              key={`${index}-${part}`}
+              className={`text-xs font-mono ${index === verdict.inputIndex ? 'text-destructive font-bold' : 'text-muted-foreground'}`}
+            >
+              {moveName}{index === verdict.inputIndex && part === 0 ? ' ←' : ''}
+            </div>
+          )))}
+        </div>
+        {verdict.expected && (
+          <div className="text-xs text-muted-foreground">
+            Expected: {formatMovesForDisplay(verdict.expected).join(', ')}
+          </div>
+        )}
+      </div>
+    );
   };
 
   const renderInputSequence = () => {
     if (currentMoves.length === 0) {
+      const diagnosis = renderFaultDiagnosis();
+      if (diagnosis) return diagnosis;
       return (
         <div className="text-xs text-muted-foreground">
           No inputs yet
@@ -413,6 +497,13 @@ export function TetrisBoard() {
     gameOver,
     gameMode,
     modeName: MODE_NAMES[gameMode],
+    seed: game.seed,
+    lines: game.lines,
+    sprint: game.sprint,
+    master: game.master,
+    masterResult: game.masterResult,
+    masterActive,
+    getTime: game.getTime,
     target,
     startGame,
     renderGrid,
@@ -1,6 +1,8 @@
 "use client";
 
-import { createContext, useContext, useState, useCallback, useEffect, useMemo } from 'react';
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { TierChange, updateCurrentSession } from '@/lib/session-history';
+import { getPlayerValue, setPlayerValue } from '@/lib/players';
 
 /**
  * Difficulty tiers
@@ -32,6 +34,9 @@ export interface PerformanceState {
   // Pattern selection bias
   weakPatternBias: number;       // How much to focus on weak patterns (0-1)
   newPatternRate: number;        // Rate of introducing new patterns (0-1)
+
+  // This visit's tier changes, for the session history (not persisted)
+  tierChanges: TierChange[];
 }
 
 const DEFAULT_PERFORMANCE: PerformanceState = {
@@ -47,8 +52,46 @@ const DEFAULT_PERFORMANCE: PerformanceState = {
   adaptiveSpeed: 1,
   weakPatternBias: 0.5,
   newPatternRate: 0.2,
+  tierChanges: [],
 };
 
+export const DIFFICULTY_STORAGE_KEY = 'finesse-difficulty-state';
+// Bump when the stored shape changes
+const DIFFICULTY_STORAGE_VERSION = 1;
+
+export interface StoredDifficultyState {
+  version: number;
+  state: PerformanceState;
+  manualTier: DifficultyTier | null;
+}
+
+function serializeDifficultyState(state: PerformanceState, manualTier: DifficultyTier | null): StoredDifficultyState {
+  // Tier changes belong to the visit, not the saved state
+  return {
+    version: DIFFICULTY_STORAGE_VERSION,
+    state: { ...state, tierChanges: [] },
+    manualTier,
+  };
+}
+
+/**
+ * Load persisted performance (null when there is none for this version)
+ */
+async function loadDifficultyState(): Promise<StoredDifficultyState | null> {
+  const stored = await getPlayerValue<StoredDifficultyState>(DIFFICULTY_STORAGE_KEY);
+  // No older versions to migrate yet
+  if (!stored || stored.version !== DIFFICULTY_STORAGE_VERSION || !stored.state) return null;
+  return stored;
+}
+
+/**
+ * Tier changes after moving to a tier - unchanged if already in it
+ */
+function withTierChange(prev: PerformanceState, tier: DifficultyTier): TierChange[] {
+  if (tier === prev.difficultyTier) return prev.tierChanges;
+  return [...prev.tierChanges, { at: Date.now(), from: prev.difficultyTier, to: tier }];
+}
+
 /**
  * Difficulty tier thresholds and settings
  */
@@ -56,7 +99,7 @@ export const DIFFICULTY_TIERS: Record<DifficultyTier, {
   name: string;
   description: string;
   accuracyThreshold: number;      // Minimum accuracy to stay in tier
-  timeThreshold: number;          // Maximum response time in ms
+  timeThreshold: number;          // Maximum response time in ms - the judgment windows fit inside it
   weakPatternBias: number;        // Focus on weak patterns
   newPatternRate: number;         // Rate of new patterns
   perfectRequired: boolean;       // Only PERFECT judgments count
@@ -229,6 +272,32 @@ const WINDOW_SIZE = 20; // Rolling window for averages
 export function DifficultySystemProvider({ children }: DifficultySystemProviderProps) {
   const [state, setState] = useState<PerformanceState>(DEFAULT_PERFORMANCE);
   const [manualTier, setManualTier] = useState<DifficultyTier | null>(null);
+  const mountedRef = useRef(false);
+
+  // Load persisted performance on mount (client-only)
+  useEffect(() => {
+    loadDifficultyState().then(stored => {
+      if (stored) {
+        setState(prev => ({ ...prev, ...stored.state, tierChanges: prev.tierChanges }));
+        setManualTier(stored.manualTier);
+      }
+      mountedRef.current = true;
+    });
+  }, []);
+
+  // Save after the initial load
+  useEffect(() => {
+    if (mountedRef.current) {
+      setPlayerValue(DIFFICULTY_STORAGE_KEY, serializeDifficultyState(state, manualTier));
+    }
+  }, [state, manualTier]);
+
+  // Keep this visit's tier changes in the session history once there are any
+  useEffect(() => {
+    if (state.tierChanges.length > 0) {
+      updateCurrentSession({ tierChanges: state.tierChanges });
+    }
+  }, [state.tierChanges]);
 
   // Get current tier settings
   const tierSettings = useMemo(() => {
@@ -292,6 +361,7 @@ export function DifficultySystemProvider({ children }: DifficultySystemProviderP
         adaptiveSpeed,
         weakPatternBias,
         newPatternRate,
+        tierChanges: withTierChange(prev, difficultyTier),
       };
     });
   }, [manualTier]);
@@ -305,6 +375,7 @@ export function DifficultySystemProvider({ children }: DifficultySystemProviderP
       ...prev,
       difficultyTier: tier,
       ...DIFFICULTY_TIERS[tier],
+      tierChanges: withTierChange(prev, tier),
     }));
   }, []);
 
@@ -325,7 +396,10 @@ export function DifficultySystemProvider({ children }: DifficultySystemProviderP
    */
   const resetPerformance = useCallback(() => {
     setManualTier(null);
-    setState(DEFAULT_PERFORMANCE);
+    setState(prev => ({
+      ...DEFAULT_PERFORMANCE,
+      tierChanges: withTierChange(prev, DEFAULT_PERFORMANCE.difficultyTier),
+    }));
   }, []);
 
   const value: DifficultySystemContextType = {
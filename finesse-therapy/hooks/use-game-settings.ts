@@ -1,12 +1,24 @@
 "use client";
 
 import { createContext, useContext } from 'react';
+import type { RandomizerType } from '@/lib/randomizer';
 
 export interface GameSettings {
   DAS: number;      // Delayed Auto Shift (frames before auto-repeat starts)
   ARR: number;      // Auto Repeat Rate (frames between repeats, -1 = instant)
   SDR: number;      // Soft Drop Rate (frames between soft drops, -1 = instant)
   retryOnFault: boolean;
+  allow180: boolean; // Finesse with a 180 rotation key (otherwise 180 counts as C, C)
+  strictFinesse: boolean; // Input order matters, no soft drop or short-sequence leniency
+  randomizer: RandomizerType;
+  seed: string;     // Piece order seed ('' = new seed every game)
+  // Free stack timing
+  gravity: number;  // Rows per frame (0 = no gravity, 20 = 20G)
+  lockDelay: number; // Frames a grounded piece waits before locking
+  lockResets: number; // Moves/rotations that restart the lock delay
+  ARE: number;      // Entry delay in frames
+  lineClearDelay: number; // Extra entry delay in frames after a line clear
+  sprintPenalty: number; // Seconds added to a sprint time per finesse fault
   showGhost: boolean;
   masterMode: boolean;
 }
@@ -16,6 +28,16 @@ export const DEFAULT_SETTINGS: GameSettings = {
   ARR: -1,  // Instant by default for finesse practice
   SDR: -1,  // Instant by default for finesse practice
   retryOnFault: false,
+  allow180: false,
+  strictFinesse: false,
+  randomizer: 'BAG_7',
+  seed: '',
+  gravity: 0,
+  lockDelay: 30,
+  lockResets: 15,
+  ARE: 3,
+  lineClearDelay: 0,
+  sprintPenalty: 0,
   showGhost: true,
   masterMode: false,
 };
@@ -1,11 +1,27 @@
 "use client";
 
-import { useState, useCallback, useEffect, createContext, useContext, ReactNode } from 'react';
+import { useState, useCallback, useEffect, useMemo, createContext, useContext, ReactNode } from 'react';
 import { KeyBinding, GameAction, DEFAULT_KEY_BINDINGS } from '@/lib/types';
+import {
+  BindingProfile,
+  BindingProfileExport,
+  BUILT_IN_PROFILES,
+  DEFAULT_PROFILE_ID,
+  createCustomProfile,
+} from '@/lib/key-profiles';
+import { getPlayerValue, setPlayerValue } from '@/lib/players';
 
-const STORAGE_KEY = 'finesse-key-bindings';
-const STORAGE_VERSION_KEY = 'finesse-key-bindings-version';
-const CURRENT_VERSION = 3; // v3 uses event.code and has migration
+export const KEY_BINDINGS_STORAGE_KEY = 'finesse-key-bindings';
+export const KEY_BINDINGS_VERSION_KEY = 'finesse-key-bindings-version';
+// v3 uses event.code and has migration, v4 adds gamepad buttons, v5 stores
+// profiles with several keys per action
+export const KEY_BINDINGS_VERSION = 5;
+
+export type InputDevice = 'keyboard' | 'gamepad';
+
+function getDefaultButton(action: GameAction): number | null {
+  return DEFAULT_KEY_BINDINGS.find(b => b.action === action)?.button ?? null;
+}
 
 // Map old e.key values to e.code values for migration
 function migrateKeyToCode(key: string): string {
@@ -55,115 +71,244 @@ function migrateKeyToCode(key: string): string {
   return specialMap[key] || key;
 }
 
-function loadBindingsFromStorage(): KeyBinding[] {
-  const version = localStorage.getItem(STORAGE_VERSION_KEY);
-  const stored = localStorage.getItem(STORAGE_KEY);
+// v4 and earlier stored a single binding list with one key per action
+interface LegacyKeyBinding {
+  key: string;
+  button?: number | null;
+  action: GameAction;
+}
+
+/**
+ * Stored profiles - built-in profiles aren't stored, only which is active
+ */
+export interface StoredKeyProfiles {
+  activeProfileId: string;
+  customProfiles: BindingProfile[];
+}
+
+const DEFAULT_STORED_PROFILES: StoredKeyProfiles = {
+  activeProfileId: DEFAULT_PROFILE_ID,
+  customProfiles: [],
+};
+
+function saveProfilesToStorage(stored: StoredKeyProfiles) {
+  setPlayerValue(KEY_BINDINGS_STORAGE_KEY, stored);
+  setPlayerValue(KEY_BINDINGS_VERSION_KEY, KEY_BINDINGS_VERSION);
+}
+
+// Legacy bindings become a custom profile, unless they were the defaults
+function migrateLegacyBindings(parsed: LegacyKeyBinding[]): StoredKeyProfiles {
+  const bindings: KeyBinding[] = parsed.map(b => ({
+    keys: [migrateKeyToCode(b.key)],
+    button: b.button !== undefined ? b.button : getDefaultButton(b.action),
+    action: b.action,
+  }));
+
+  const isDefault = bindings.every(b => {
+    const defaults = DEFAULT_KEY_BINDINGS.find(d => d.action === b.action);
+    return defaults?.keys[0] === b.keys[0] && defaults.button === b.button;
+  });
+  if (isDefault) return DEFAULT_STORED_PROFILES;
+
+  const custom = createCustomProfile('Custom', bindings);
+  return { activeProfileId: custom.id, customProfiles: [custom] };
+}
+
+async function loadBindingsFromStorage(): Promise<StoredKeyProfiles> {
+  const version = await getPlayerValue<number | string>(KEY_BINDINGS_VERSION_KEY);
+  const parsed = await getPlayerValue<StoredKeyProfiles | LegacyKeyBinding[]>(KEY_BINDINGS_STORAGE_KEY);
 
   // No stored data - use defaults
-  if (!stored) {
-    localStorage.setItem(STORAGE_VERSION_KEY, String(CURRENT_VERSION));
-    return DEFAULT_KEY_BINDINGS;
+  if (!parsed) {
+    setPlayerValue(KEY_BINDINGS_VERSION_KEY, KEY_BINDINGS_VERSION);
+    return DEFAULT_STORED_PROFILES;
   }
 
   try {
-    const parsed = JSON.parse(stored);
-
-    // Validate structure
-    if (!Array.isArray(parsed) || parsed.length !== DEFAULT_KEY_BINDINGS.length) {
-      localStorage.removeItem(STORAGE_KEY);
-      localStorage.setItem(STORAGE_VERSION_KEY, String(CURRENT_VERSION));
-      return DEFAULT_KEY_BINDINGS;
+    // Migrate old versions - a single binding list in e.key or e.code format
+    if (Array.isArray(parsed)) {
+      if (parsed.length !== DEFAULT_KEY_BINDINGS.length) {
+        saveProfilesToStorage(DEFAULT_STORED_PROFILES);
+        return DEFAULT_STORED_PROFILES;
+      }
+      const migrated = migrateLegacyBindings(parsed);
+      saveProfilesToStorage(migrated);
+      return migrated;
     }
 
-    // Migrate old versions to e.code format
-    if (version !== String(CURRENT_VERSION)) {
-      const migrated = parsed.map((b: KeyBinding) => ({
-        ...b,
-        key: migrateKeyToCode(b.key)
-      }));
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(migrated));
-      localStorage.setItem(STORAGE_VERSION_KEY, String(CURRENT_VERSION));
-      return migrated;
+    // Validate structure - versions imported from localStorage may be strings
+    if (Number(version) !== KEY_BINDINGS_VERSION ||
+        typeof parsed.activeProfileId !== 'string' || !Array.isArray(parsed.customProfiles)) {
+      saveProfilesToStorage(DEFAULT_STORED_PROFILES);
+      return DEFAULT_STORED_PROFILES;
     }
 
     return parsed;
   } catch {
-    localStorage.removeItem(STORAGE_KEY);
-    localStorage.setItem(STORAGE_VERSION_KEY, String(CURRENT_VERSION));
-    return DEFAULT_KEY_BINDINGS;
+    saveProfilesToStorage(DEFAULT_STORED_PROFILES);
+    return DEFAULT_STORED_PROFILES;
   }
 }
 
+function findProfile(stored: StoredKeyProfiles, id: string): BindingProfile {
+  return [...BUILT_IN_PROFILES, ...stored.customProfiles].find(p => p.id === id) ?? BUILT_IN_PROFILES[0];
+}
+
 interface KeyBindingsContextType {
   bindings: KeyBinding[];
+  profiles: BindingProfile[];
+  activeProfile: BindingProfile;
   listening: GameAction | null;
-  startListening: (action: GameAction) => void;
+  listeningDevice: InputDevice;
+  startListening: (action: GameAction, device?: InputDevice) => void;
   stopListening: () => void;
-  updateBinding: (action: GameAction, newKey: string) => void;
+  addKey: (action: GameAction, code: string) => void;
+  removeKey: (action: GameAction, code: string) => void;
+  updateButtonBinding: (action: GameAction, button: number) => void;
   resetBindings: () => void;
+  selectProfile: (id: string) => void;
+  createProfile: (name: string) => void;
+  deleteProfile: (id: string) => void;
+  importProfile: (profile: BindingProfileExport) => void;
   getAction: (code: string) => GameAction | undefined;
+  getButtonAction: (button: number) => GameAction | undefined;
   getKey: (action: GameAction) => string | undefined;
 }
 
 const KeyBindingsContext = createContext<KeyBindingsContextType | null>(null);
 
 export function KeyBindingsProvider({ children }: { children: ReactNode }) {
-  const [bindings, setBindings] = useState<KeyBinding[]>(DEFAULT_KEY_BINDINGS);
+  const [stored, setStored] = useState<StoredKeyProfiles>(DEFAULT_STORED_PROFILES);
   const [listening, setListening] = useState<GameAction | null>(null);
+  const [listeningDevice, setListeningDevice] = useState<InputDevice>('keyboard');
 
-  // Load from localStorage after hydration
+  // Load from storage after hydration
   useEffect(() => {
-    // eslint-disable-next-line react-hooks/set-state-in-effect -- intentional: load persisted settings once on mount
-    setBindings(loadBindingsFromStorage());
+    loadBindingsFromStorage().then(setStored);
   }, []);
 
-  const saveBindings = useCallback((newBindings: KeyBinding[]) => {
-    setBindings(newBindings);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newBindings));
-    localStorage.setItem(STORAGE_VERSION_KEY, String(CURRENT_VERSION));
+  const profiles = useMemo(() => [...BUILT_IN_PROFILES, ...stored.customProfiles], [stored.customProfiles]);
+  const activeProfile = findProfile(stored, stored.activeProfileId);
+  const bindings = activeProfile.bindings;
+
+  const updateStored = useCallback((update: (prev: StoredKeyProfiles) => StoredKeyProfiles) => {
+    setStored(prev => {
+      const next = update(prev);
+      saveProfilesToStorage(next);
+      return next;
+    });
   }, []);
 
-  const startListening = useCallback((action: GameAction) => {
+  // Edit the active profile. A built-in profile is copied into a new custom
+  // profile first, which becomes active.
+  const editBindings = useCallback((edit: (bindings: KeyBinding[]) => KeyBinding[]) => {
+    updateStored(prev => {
+      const active = findProfile(prev, prev.activeProfileId);
+      if (!active.builtIn) {
+        return {
+          ...prev,
+          customProfiles: prev.customProfiles.map(p =>
+            p.id === active.id ? { ...p, bindings: edit(p.bindings) } : p
+          ),
+        };
+      }
+      const copy = createCustomProfile(`${active.name} (custom)`, edit(active.bindings));
+      return { activeProfileId: copy.id, customProfiles: [...prev.customProfiles, copy] };
+    });
+  }, [updateStored]);
+
+  const startListening = useCallback((action: GameAction, device: InputDevice = 'keyboard') => {
     setListening(action);
+    setListeningDevice(device);
   }, []);
 
   const stopListening = useCallback(() => {
     setListening(null);
   }, []);
 
-  const updateBinding = useCallback((action: GameAction, newKey: string) => {
-    setBindings(prev => {
-      const newBindings = prev.map(b =>
-        b.action === action ? { ...b, key: newKey } : b
-      );
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(newBindings));
-      localStorage.setItem(STORAGE_VERSION_KEY, String(CURRENT_VERSION));
-      return newBindings;
-    });
+  const addKey = useCallback((action: GameAction, code: string) => {
+    editBindings(prev => prev.map(b =>
+      b.action === action && !b.keys.includes(code) ? { ...b, keys: [...b.keys, code] } : b
+    ));
     setListening(null);
-  }, []);
+  }, [editBindings]);
+
+  const removeKey = useCallback((action: GameAction, code: string) => {
+    editBindings(prev => prev.map(b =>
+      b.action === action ? { ...b, keys: b.keys.filter(key => key !== code) } : b
+    ));
+  }, [editBindings]);
+
+  const updateButtonBinding = useCallback((action: GameAction, button: number) => {
+    editBindings(prev => prev.map(b =>
+      b.action === action ? { ...b, button } : b
+    ));
+    setListening(null);
+  }, [editBindings]);
+
+  const selectProfile = useCallback((id: string) => {
+    updateStored(prev => ({ ...prev, activeProfileId: id }));
+  }, [updateStored]);
 
+  // Custom profiles are kept - reset only switches back to the defaults
   const resetBindings = useCallback(() => {
-    saveBindings(DEFAULT_KEY_BINDINGS);
-  }, [saveBindings]);
+    selectProfile(DEFAULT_PROFILE_ID);
+  }, [selectProfile]);
+
+  // New custom profile starting from the active one's bindings
+  const createProfile = useCallback((name: string) => {
+    updateStored(prev => {
+      const profile = createCustomProfile(name, findProfile(prev, prev.activeProfileId).bindings);
+      return { activeProfileId: profile.id, customProfiles: [...prev.customProfiles, profile] };
+    });
+  }, [updateStored]);
+
+  const deleteProfile = useCallback((id: string) => {
+    updateStored(prev => ({
+      activeProfileId: prev.activeProfileId === id ? DEFAULT_PROFILE_ID : prev.activeProfileId,
+      customProfiles: prev.customProfiles.filter(p => p.id !== id),
+    }));
+  }, [updateStored]);
 
+  const importProfile = useCallback((exported: BindingProfileExport) => {
+    updateStored(prev => {
+      const profile = createCustomProfile(exported.name, exported.bindings);
+      return { activeProfileId: profile.id, customProfiles: [...prev.customProfiles, profile] };
+    });
+  }, [updateStored]);
+
+  // With conflicting bindings the first action wins
   const getAction = useCallback((code: string): GameAction | undefined => {
-    return bindings.find(b => b.key === code)?.action;
+    return bindings.find(b => b.keys.includes(code))?.action;
+  }, [bindings]);
+
+  const getButtonAction = useCallback((button: number): GameAction | undefined => {
+    return bindings.find(b => b.button === button)?.action;
   }, [bindings]);
 
   const getKey = useCallback((action: GameAction): string | undefined => {
-    return bindings.find(b => b.action === action)?.key;
+    return bindings.find(b => b.action === action)?.keys[0];
   }, [bindings]);
 
   return (
     <KeyBindingsContext.Provider value={{
       bindings,
+      profiles,
+      activeProfile,
       listening,
+      listeningDevice,
       startListening,
       stopListening,
-      updateBinding,
+      addKey,
+      removeKey,
+      updateButtonBinding,
       resetBindings,
+      selectProfile,
+      createProfile,
+      deleteProfile,
+      importProfile,
       getAction,
+      getButtonAction,
       getKey,
     }}>
       {children}
@@ -3,31 +3,63 @@
 import { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
 import type { TetrominoType } from '@/lib/types';
 import {
-  SM2Card,
+  Card,
+  SchedulerType,
   SessionRecord,
-  initCard,
-  reviewCard,
+  SessionTally,
+  ReviewResult,
+  PatternSelectionParams,
+  PASSING_QUALITY,
+  RECALLED_QUALITY,
+  getScheduler,
+  getReviewQuality,
+  migrateCards,
   selectNextPattern,
   createPatternId,
   parsePatternId,
   calculateMasteryStats,
+  getDueTodayCount,
   getCardAccuracy,
   isCardMastered,
+  clearLeech,
   createSessionRecord,
-} from '@/lib/sm2';
+  createRotationId,
+  getNextReviewAt,
+  updateLapses,
+  Quality,
+  DRILL_CLEAR_STREAK,
+} from '@/lib/scheduler';
 import { FINESSE_TARGETS, PieceIndex, getOptimalMoves, FinesseMove } from '@/lib/finesse-data';
-
-// Storage key for localStorage
+import { CURRICULUM, getUnlockedPatternIds } from '@/lib/curriculum';
+import { useGameSettings } from '@/hooks/use-game-settings';
+import { getPlayerValue, setPlayerValue } from '@/lib/players';
+import {
+  acquireWriterLock,
+  broadcastValue,
+  sendToWriter,
+  subscribeToOperations,
+  subscribeToValue,
+} from '@/lib/tab-sync';
+
+// Storage key
 export const LEARNING_STORAGE_KEY = 'finesse-learning-progress';
 
-// Maximum session history entries
-const MAX_SESSION_HISTORY = 100;
+/**
+ * Remediation drill for a leech - the pattern repeats until it is cleared
+ * DRILL_CLEAR_STREAK times in a row
+ */
+export interface LeechDrill {
+  patternId: string;
+  streak: number;                  // Correct drops in a row so far
+}
 
 /**
  * Learning progress state
  */
 export interface LearningProgress {
-  cards: Record<string, SM2Card>;
+  scheduler: SchedulerType;        // Algorithm the cards are kept by
+  cards: Record<string, Card>;
+  drill: LeechDrill | null;        // Remediation drill in progress
   sessionHistory: SessionRecord[];
   globalRepetitionCount: number;
   lastMasteredReview: number;
@@ -38,6 +70,18 @@ export interface LearningProgress {
     correct: number;
     patternsReviewed: Set<string>;
     patternsMasteredThisSession: number;
+    rotations: Record<string, SessionTally>;
+  };
+}
+
+function createCurrentSession(): LearningProgress['currentSession'] {
+  return {
+    startTime: Date.now(),
+    attempts: 0,
+    correct: 0,
+    patternsReviewed: new Set(),
+    patternsMasteredThisSession: 0,
+    rotations: {},
   };
 }
 
@@ -45,17 +89,13 @@ export interface LearningProgress {
  * Default empty learning progress
  */
 const DEFAULT_PROGRESS: LearningProgress = {
+  scheduler: 'SM2',
   cards: {},
+  drill: null,
   sessionHistory: [],
   globalRepetitionCount: 0,
   lastMasteredReview: 0,
-  currentSession: {
-    startTime: Date.now(),
-    attempts: 0,
-    correct: 0,
-    patternsReviewed: new Set(),
-    patternsMasteredThisSession: 0,
-  },
+  currentSession: createCurrentSession(),
 };
 
 /**
@@ -81,54 +121,81 @@ const PIECE_TYPE_TO_INDEX: Record<TetrominoType, PieceIndex> = {
   'J': 6,
 };
 
-/**
- * Generate all valid pattern IDs from FINESSE_TARGETS
- */
-function getAllPatternIds(): string[] {
-  const ids: string[] = [];
-
-  for (const pieceIndexStr of Object.keys(FINESSE_TARGETS)) {
-    const pieceIndex = parseInt(pieceIndexStr, 10) as PieceIndex;
-    const pieceType = PIECE_INDEX_TO_TYPE[pieceIndex];
-    const rotations = FINESSE_TARGETS[pieceIndex];
-
-    for (let rotIndex = 0; rotIndex < rotations.length; rotIndex++) {
-      const positions = rotations[rotIndex];
-      for (let colIndex = 0; colIndex < positions.length; colIndex++) {
-        const [column, rotation] = positions[colIndex];
-        ids.push(createPatternId(pieceType, column, rotation));
-      }
-    }
-  }
-
-  return ids;
-}
+// All pattern IDs, easiest first
+const ALL_PATTERN_IDS = CURRICULUM.map(pattern => pattern.patternId);
 
-// Cache all pattern IDs
-const ALL_PATTERN_IDS = getAllPatternIds();
+// Learning progress as stored
+export type StoredLearningProgress = Omit<LearningProgress, 'currentSession'>;
 
 /**
- * Serialize learning progress for localStorage
- * Note: Sets need to be converted to arrays for JSON
+ * Serialize learning progress for storage
  */
-function serializeProgress(progress: LearningProgress): string {
-  return JSON.stringify({
+function serializeProgress(progress: LearningProgress): StoredLearningProgress {
+  return {
+    scheduler: progress.scheduler,
     cards: progress.cards,
+    drill: progress.drill,
     sessionHistory: progress.sessionHistory,
     globalRepetitionCount: progress.globalRepetitionCount,
     lastMasteredReview: progress.lastMasteredReview,
     // Don't persist currentSession - it's session-specific
-  });
+  };
 }
 
 /**
- * Deserialize learning progress from localStorage
+ * Fill in card fields added since the progress was saved. Cards from before
+ * wall-clock scheduling are due from their last review.
  */
-function deserializeProgress(data: string): Partial<LearningProgress> {
+function normalizeCards(cards: Record<string, Card>): Record<string, Card> {
+  const result: Record<string, Card> = {};
+  for (const [id, card] of Object.entries(cards)) {
+    result[id] = {
+      ...card,
+      dueAt: card.dueAt ?? card.lastReviewed,
+      lapses: card.lapses ?? 0,
+      leech: card.leech ?? false,
+    };
+  }
+  return result;
+}
+
+/**
+ * Count a remediation drill attempt. Drill repetitions come back to back,
+ * so they count toward accuracy without moving the card's schedule.
+ */
+function practiceCard(card: Card, recalled: boolean): Card {
+  return {
+    ...card,
+    successCount: recalled ? card.successCount + 1 : card.successCount,
+    failCount: recalled ? card.failCount : card.failCount + 1,
+    lastReviewed: Date.now(),
+  };
+}
+
+/**
+ * Count a review of a card that isn't due yet - one already reviewed this
+ * session. Only the first review once a card is due moves its schedule, so
+ * drilling a pattern within a session doesn't push it months out.
+ */
+function rehearseCard(card: Card, quality: Quality, globalRepetitionCount: number): Card {
+  const recalled = quality >= RECALLED_QUALITY;
+  return {
+    ...practiceCard(card, recalled),
+    nextReviewAt: getNextReviewAt(quality, globalRepetitionCount),
+    ...updateLapses(card, recalled),
+  };
+}
+
+/**
+ * Deserialize stored learning progress, filling in fields added since it was saved
+ */
+function deserializeProgress(parsed: Partial<StoredLearningProgress>): Partial<LearningProgress> {
   try {
-    const parsed = JSON.parse(data);
     return {
-      cards: parsed.cards || {},
+      // Progress saved before schedulers were pluggable is SM-2
+      scheduler: parsed.scheduler || 'SM2',
+      cards: normalizeCards(parsed.cards || {}),
+      drill: parsed.drill || null,
       sessionHistory: parsed.sessionHistory || [],
       globalRepetitionCount: parsed.globalRepetitionCount || 0,
       lastMasteredReview: parsed.lastMasteredReview || 0,
@@ -139,27 +206,190 @@ function deserializeProgress(data: string): Partial<LearningProgress> {
 }
 
 /**
- * Load progress from localStorage
+ * A change to stored progress. Tabs other than the writer apply it to their
+ * own copy and send it to the writer, so results recorded in two tabs at
+ * once both count.
  */
-function loadProgress(): LearningProgress {
-  if (typeof window === 'undefined') return DEFAULT_PROGRESS;
+type ProgressOperation =
+  | { type: 'recordResult'; piece: TetrominoType; column: number; rotation: number; result: ReviewResult }
+  | { type: 'saveSession'; session: SessionRecord }
+  | { type: 'finishSession'; startedAt: number }
+  | { type: 'setScheduler'; scheduler: SchedulerType }
+  | { type: 'reset' };
 
-  const stored = localStorage.getItem(LEARNING_STORAGE_KEY);
-  if (stored) {
-    const parsed = deserializeProgress(stored);
-    return {
-      ...DEFAULT_PROGRESS,
-      ...parsed,
-      currentSession: {
-        startTime: Date.now(),
-        attempts: 0,
-        correct: 0,
-        patternsReviewed: new Set(),
-        patternsMasteredThisSession: 0,
+/**
+ * Progress with an attempt's result applied to its card and counted in the
+ * current session, whose record is saved along with it
+ */
+function withResultRecorded(
+  prev: LearningProgress,
+  piece: TetrominoType,
+  column: number,
+  rotation: number,
+  result: ReviewResult
+): LearningProgress {
+  const patternId = createPatternId(piece, column, rotation);
+  const quality = getReviewQuality(result);
+  const correct = quality >= PASSING_QUALITY;
+  // A correct but too slow placement still counts as correct
+  const recalled = quality >= RECALLED_QUALITY;
+  const scheduler = getScheduler(prev.scheduler);
+
+  // Get or create card
+  let card = prev.cards[patternId];
+  const wasMastered = card ? isCardMastered(card) : false;
+
+  if (!card) {
+    card = scheduler.initCard(patternId, prev.globalRepetitionCount);
+  }
+
+  let updatedCard: Card;
+  let drill = prev.drill;
+  if (drill?.patternId === patternId) {
+    // Remediation drill - cleared after enough correct drops in time in a row
+    const streak = correct ? drill.streak + 1 : 0;
+    updatedCard = practiceCard(card, recalled);
+    if (streak >= DRILL_CLEAR_STREAK) {
+      updatedCard = clearLeech(updatedCard);
+      drill = null;
+    } else {
+      drill = { patternId, streak };
+    }
+  } else {
+    // Update card with review result, drilling it once it becomes a leech
+    updatedCard = card.dueAt <= Date.now()
+      ? scheduler.reviewCard(card, quality, prev.globalRepetitionCount)
+      : rehearseCard(card, quality, prev.globalRepetitionCount);
+    if (!drill && updatedCard.leech) {
+      drill = { patternId, streak: 0 };
+    }
+  }
+  const isNowMastered = isCardMastered(updatedCard);
+
+  // Update mastered review timestamp if we're reviewing a mastered pattern
+  let newLastMasteredReview = prev.lastMasteredReview;
+  if (wasMastered) {
+    newLastMasteredReview = prev.globalRepetitionCount;
+  }
+
+  // Update current session
+  const newPatternsReviewed = new Set(prev.currentSession.patternsReviewed);
+  newPatternsReviewed.add(patternId);
+  const rotationId = createRotationId(piece, rotation);
+  const tally = prev.currentSession.rotations[rotationId] ?? { attempts: 0, correct: 0 };
+
+  return withCurrentSessionSaved({
+    ...prev,
+    cards: {
+      ...prev.cards,
+      [patternId]: updatedCard,
+    },
+    drill,
+    globalRepetitionCount: prev.globalRepetitionCount + 1,
+    lastMasteredReview: newLastMasteredReview,
+    currentSession: {
+      ...prev.currentSession,
+      attempts: prev.currentSession.attempts + 1,
+      correct: prev.currentSession.correct + (recalled ? 1 : 0),
+      patternsReviewed: newPatternsReviewed,
+      patternsMasteredThisSession: prev.currentSession.patternsMasteredThisSession +
+        (!wasMastered && isNowMastered ? 1 : 0),
+      rotations: {
+        ...prev.currentSession.rotations,
+        [rotationId]: { attempts: tally.attempts + 1, correct: tally.correct + (recalled ? 1 : 0) },
       },
-    };
+    },
+  });
+}
+
+/**
+ * The current session as a history record - null when nothing was attempted
+ */
+function getCurrentSessionRecord(progress: LearningProgress): SessionRecord | null {
+  const session = progress.currentSession;
+  if (session.attempts === 0) {
+    // Don't save empty sessions
+    return null;
   }
-  return DEFAULT_PROGRESS;
+
+  return createSessionRecord(
+    session.startTime,
+    session.attempts,
+    session.correct,
+    session.patternsReviewed.size,
+    session.patternsMasteredThisSession,
+    session.rotations
+  );
+}
+
+/**
+ * Progress with a session's record in the history, replacing the one saved
+ * for it before
+ */
+function withSessionSaved(prev: LearningProgress, session: SessionRecord): LearningProgress {
+  return {
+    ...prev,
+    // Newest first
+    sessionHistory: [session, ...prev.sessionHistory.filter(saved => saved.startedAt !== session.startedAt)],
+  };
+}
+
+function withCurrentSessionSaved(progress: LearningProgress): LearningProgress {
+  const session = getCurrentSessionRecord(progress);
+  return session ? withSessionSaved(progress, session) : progress;
+}
+
+/**
+ * Progress after an operation. The current session moves on with it - a
+ * result counts toward it, and finishing it starts a new one.
+ */
+function applyOperation(prev: LearningProgress, operation: ProgressOperation): LearningProgress {
+  switch (operation.type) {
+    case 'recordResult':
+      return withResultRecorded(prev, operation.piece, operation.column, operation.rotation, operation.result);
+    case 'saveSession':
+      return withSessionSaved(prev, operation.session);
+    case 'finishSession':
+      return {
+        ...prev,
+        sessionHistory: prev.sessionHistory.map(session =>
+          session.startedAt === operation.startedAt ? { ...session, finished: true } : session
+        ),
+        currentSession: createCurrentSession(),
+      };
+    case 'setScheduler':
+      // Existing cards are converted so their reviews carry over
+      if (prev.scheduler === operation.scheduler) return prev;
+      return {
+        ...prev,
+        scheduler: operation.scheduler,
+        cards: migrateCards(prev.cards, operation.scheduler),
+      };
+    case 'reset':
+      // Keep the chosen scheduler
+      return {
+        ...DEFAULT_PROGRESS,
+        scheduler: prev.scheduler,
+        currentSession: createCurrentSession(),
+      };
+  }
+}
+
+/**
+ * Progress after an operation sent by another tab. This tab's session is
+ * its own, and so is the record saved for it - the sender saves its own.
+ */
+function applyRemoteOperation(prev: LearningProgress, operation: ProgressOperation): LearningProgress {
+  const next = { ...applyOperation(prev, operation), currentSession: prev.currentSession };
+  return operation.type === 'recordResult' ? { ...next, sessionHistory: prev.sessionHistory } : next;
+}
+
+/**
+ * Load stored progress (empty when there is none)
+ */
+async function loadProgress(): Promise<Partial<LearningProgress>> {
+  const stored = await getPlayerValue<Partial<StoredLearningProgress>>(LEARNING_STORAGE_KEY);
+  return stored && typeof stored === 'object' ? deserializeProgress(stored) : {};
 }
 
 /**
@@ -168,9 +398,9 @@ function loadProgress(): LearningProgress {
 export interface LearningProgressContextType {
   progress: LearningProgress;
   // Pattern selection for LEARNING mode
-  selectNextLearningPattern: () => { piece: TetrominoType; column: number; rotation: number; moves: FinesseMove[][] } | null;
-  // Record result after a drop
-  recordResult: (piece: TetrominoType, column: number, rotation: number, correct: boolean) => void;
+  selectNextLearningPattern: (params?: PatternSelectionParams) => { piece: TetrominoType; column: number; rotation: number; moves: FinesseMove[][] } | null;
+  // Record the graded result of an attempt
+  recordResult: (piece: TetrominoType, column: number, rotation: number, result: ReviewResult) => void;
   // Get stats for a specific pattern
   getPatternStats: (patternId: string) => { accuracy: number; attempts: number; mastered: boolean } | null;
   // Get mastery grid data for visualization
@@ -183,10 +413,13 @@ export interface LearningProgressContextType {
     overallAccuracy: number;
     totalAttempts: number;
     totalPatterns: number;
+    dueTodayCount: number;           // Patterns due on the wall clock before midnight
   };
+  // Switch scheduling algorithm, migrating every card
+  setScheduler: (type: SchedulerType) => void;
   // Start a new session
   startNewSession: () => void;
-  // End current session and save to history
+  // Mark the current session finished - its record is saved as it goes
   endSession: () => void;
   // Reset all learning progress
   resetProgress: () => void;
@@ -206,6 +439,7 @@ export interface MasteryGridData {
         accuracy: number;
         attempts: number;
         mastered: boolean;
+        leech: boolean;
       }[];
     }[];
   }[];
@@ -235,16 +469,115 @@ interface LearningProgressProviderProps {
  * Learning Progress Provider Component
  */
 export function LearningProgressProvider({ children }: LearningProgressProviderProps) {
-  const [progress, setProgress] = useState<LearningProgress>(loadProgress);
+  const [progress, setProgress] = useState<LearningProgress>(DEFAULT_PROGRESS);
   const mountedRef = useRef(true);
+  const loadedRef = useRef(false);
+  // Only the tab holding the writer lock saves progress, so two tabs never
+  // overwrite each other. The others send it their changes.
+  const isWriterRef = useRef(false);
+  // Set when the next change came from another tab
+  const remoteChangeRef = useRef(false);
+  const latestProgressRef = useRef(progress);
+  // This tab's session as last sent to the writer
+  const sentSessionRef = useRef(progress.currentSession);
+  const { settings } = useGameSettings();
+
+  // Apply a change here, and have the writer apply it to the stored
+  // progress when this tab isn't the writer
+  const dispatch = useCallback((operation: ProgressOperation) => {
+    setProgress(prev => applyOperation(prev, operation));
+    if (!isWriterRef.current) {
+      sendToWriter(LEARNING_STORAGE_KEY, operation);
+    }
+  }, []);
 
-  // Save to localStorage when progress changes (excluding currentSession)
+  // Load stored progress on mount (client-only). The session in progress
+  // carries on.
   useEffect(() => {
-    if (mountedRef.current) {
-      localStorage.setItem(LEARNING_STORAGE_KEY, serializeProgress(progress));
+    loadProgress().then(stored => {
+      setProgress(prev => ({ ...prev, ...stored, currentSession: prev.currentSession }));
+      loadedRef.current = true;
+    });
+  }, []);
+
+  // Become the writer once no other tab is. Changes sent to the previous
+  // writer may not have been saved yet.
+  useEffect(() => acquireWriterLock(LEARNING_STORAGE_KEY, () => {
+    isWriterRef.current = true;
+    if (loadedRef.current) {
+      const stored = serializeProgress(latestProgressRef.current);
+      setPlayerValue(LEARNING_STORAGE_KEY, stored);
+      broadcastValue(LEARNING_STORAGE_KEY, stored);
+    }
+  }), []);
+
+  // Adopt progress saved by the writer. Each tab keeps its own session.
+  useEffect(() => subscribeToValue<StoredLearningProgress>(LEARNING_STORAGE_KEY, stored => {
+    remoteChangeRef.current = true;
+    setProgress(prev => ({ ...prev, ...deserializeProgress(stored), currentSession: prev.currentSession }));
+  }), []);
+
+  // As the writer, apply changes sent by other tabs - but not to this tab's
+  // session
+  useEffect(() => subscribeToOperations<ProgressOperation>(LEARNING_STORAGE_KEY, operation => {
+    if (!isWriterRef.current) return;
+    setProgress(prev => applyRemoteOperation(prev, operation));
+  }), []);
+
+  // As the writer, save when progress changes (excluding currentSession),
+  // once loaded, and send the result to the other tabs. The others send the
+  // writer their session's record as it goes.
+  useEffect(() => {
+    latestProgressRef.current = progress;
+    const remoteChange = remoteChangeRef.current;
+    remoteChangeRef.current = false;
+    if (!mountedRef.current || !loadedRef.current) return;
+
+    if (!isWriterRef.current) {
+      const session = getCurrentSessionRecord(progress);
+      if (session && progress.currentSession !== sentSessionRef.current) {
+        const operation: ProgressOperation = { type: 'saveSession', session };
+        sendToWriter(LEARNING_STORAGE_KEY, operation);
+      }
+      sentSessionRef.current = progress.currentSession;
+      return;
+    }
+
+    const stored = serializeProgress(progress);
+    setPlayerValue(LEARNING_STORAGE_KEY, stored);
+    if (!remoteChange) {
+      broadcastValue(LEARNING_STORAGE_KEY, stored);
     }
   }, [progress]);
 
+  // Nothing else ends a session, so it's marked finished when the page
+  // closes - its record was saved as it went. There's no render left to
+  // save through the effect above.
+  useEffect(() => {
+    const handlePageHide = () => {
+      const current = latestProgressRef.current;
+      if (!loadedRef.current || current.currentSession.attempts === 0) return;
+
+      const operation: ProgressOperation = { type: 'finishSession', startedAt: current.currentSession.startTime };
+      const next = applyOperation(current, operation);
+      latestProgressRef.current = next;
+      if (isWriterRef.current) {
+        const stored = serializeProgress(next);
+        setPlayerValue(LEARNING_STORAGE_KEY, stored);
+        broadcastValue(LEARNING_STORAGE_KEY, stored);
+      } else {
+        sendToWriter(LEARNING_STORAGE_KEY, operation);
+      }
+      // A page restored from the back/forward cache starts a new session.
+      // It was already sent above.
+      remoteChangeRef.current = true;
+      setProgress(next);
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -253,14 +586,20 @@ export function LearningProgressProvider({ children }: LearningProgressProviderP
   }, []);
 
   /**
-   * Select next pattern to practice using SM-2
+   * Select next pattern to practice from the scheduled reviews, weighted by
+   * the difficulty system's selection params when given
    */
-  const selectNextLearningPattern = useCallback(() => {
-    const patternId = selectNextPattern(
+  const selectNextLearningPattern = useCallback((params?: PatternSelectionParams) => {
+    // A leech being drilled repeats until the drill is cleared
+    const patternId = progress.drill?.patternId ?? selectNextPattern(
       progress.cards,
-      ALL_PATTERN_IDS,
+      // New patterns are introduced in curriculum order as tiers unlock
+      getUnlockedPatternIds(progress.cards),
       progress.globalRepetitionCount,
-      progress.lastMasteredReview
+      progress.lastMasteredReview,
+      Date.now(),
+      progress.currentSession.startTime,
+      params
     );
 
     if (!patternId) return null;
@@ -294,64 +633,22 @@ export function LearningProgressProvider({ children }: LearningProgressProviderP
       }
     }
 
-    const moves = getOptimalMoves(pieceIndex, colIndex, arrayIndex);
+    const moves = getOptimalMoves(pieceIndex, colIndex, arrayIndex, { allow180: settings.allow180 });
 
     return { piece, column, rotation, moves };
-  }, [progress.cards, progress.globalRepetitionCount, progress.lastMasteredReview]);
+  }, [progress.cards, progress.drill, progress.globalRepetitionCount, progress.lastMasteredReview, progress.currentSession.startTime, settings.allow180]);
 
   /**
-   * Record result after a piece drop
+   * Record the result of an attempt, graded 0-5 for the scheduler
    */
   const recordResult = useCallback((
     piece: TetrominoType,
     column: number,
     rotation: number,
-    correct: boolean
+    result: ReviewResult
   ) => {
-    const patternId = createPatternId(piece, column, rotation);
-
-    setProgress(prev => {
-      // Get or create card
-      let card = prev.cards[patternId];
-      const wasMastered = card ? isCardMastered(card) : false;
-
-      if (!card) {
-        card = initCard(patternId, prev.globalRepetitionCount);
-      }
-
-      // Update card with review result
-      const updatedCard = reviewCard(card, correct, prev.globalRepetitionCount);
-      const isNowMastered = isCardMastered(updatedCard);
-
-      // Update mastered review timestamp if we're reviewing a mastered pattern
-      let newLastMasteredReview = prev.lastMasteredReview;
-      if (wasMastered) {
-        newLastMasteredReview = prev.globalRepetitionCount;
-      }
-
-      // Update current session
-      const newPatternsReviewed = new Set(prev.currentSession.patternsReviewed);
-      newPatternsReviewed.add(patternId);
-
-      return {
-        ...prev,
-        cards: {
-          ...prev.cards,
-          [patternId]: updatedCard,
-        },
-        globalRepetitionCount: prev.globalRepetitionCount + 1,
-        lastMasteredReview: newLastMasteredReview,
-        currentSession: {
-          ...prev.currentSession,
-          attempts: prev.currentSession.attempts + 1,
-          correct: prev.currentSession.correct + (correct ? 1 : 0),
-          patternsReviewed: newPatternsReviewed,
-          patternsMasteredThisSession: prev.currentSession.patternsMasteredThisSession +
-            (!wasMastered && isNowMastered ? 1 : 0),
-        },
-      };
-    });
-  }, []);
+    dispatch({ type: 'recordResult', piece, column, rotation, result });
+  }, [dispatch]);
 
   /**
    * Get stats for a specific pattern
@@ -394,6 +691,7 @@ export function LearningProgressProvider({ children }: LearningProgressProviderP
             accuracy: card ? getCardAccuracy(card) : -1, // -1 means not started
             attempts: card ? card.successCount + card.failCount : 0,
             mastered: card ? isCardMastered(card) : false,
+            leech: card ? card.leech : false,
           });
         }
 
@@ -423,74 +721,43 @@ export function LearningProgressProvider({ children }: LearningProgressProviderP
     return {
       ...stats,
       totalPatterns: ALL_PATTERN_IDS.length,
+      dueTodayCount: getDueTodayCount(progress.cards, Date.now()),
     };
   }, [progress.cards]);
 
+  /**
+   * Switch scheduler, converting existing cards so their reviews carry over
+   */
+  const setScheduler = useCallback((type: SchedulerType) => {
+    dispatch({ type: 'setScheduler', scheduler: type });
+  }, [dispatch]);
+
   /**
    * Start a new session
    */
   const startNewSession = useCallback(() => {
     setProgress(prev => ({
       ...prev,
-      currentSession: {
-        startTime: Date.now(),
-        attempts: 0,
-        correct: 0,
-        patternsReviewed: new Set(),
-        patternsMasteredThisSession: 0,
-      },
+      currentSession: createCurrentSession(),
     }));
   }, []);
 
   /**
-   * End current session and save to history
+   * Finish the current session and start a new one
    */
   const endSession = useCallback(() => {
-    setProgress(prev => {
-      if (prev.currentSession.attempts === 0) {
-        // Don't save empty sessions
-        return prev;
-      }
-
-      const sessionRecord = createSessionRecord(
-        prev.currentSession.attempts,
-        prev.currentSession.correct,
-        prev.currentSession.patternsReviewed.size,
-        prev.currentSession.patternsMasteredThisSession
-      );
-
-      // Add to history, keeping only the most recent sessions
-      const newHistory = [sessionRecord, ...prev.sessionHistory].slice(0, MAX_SESSION_HISTORY);
-
-      return {
-        ...prev,
-        sessionHistory: newHistory,
-        currentSession: {
-          startTime: Date.now(),
-          attempts: 0,
-          correct: 0,
-          patternsReviewed: new Set(),
-          patternsMasteredThisSession: 0,
-        },
-      };
-    });
-  }, []);
+    const { currentSession } = latestProgressRef.current;
+    if (currentSession.attempts > 0) {
+      dispatch({ type: 'finishSession', startedAt: currentSession.startTime });
+    }
+  }, [dispatch]);
 
   /**
    * Reset all learning progress
    */
   const resetProgress = useCallback(() => {
-    setProgress({
-      ...DEFAULT_PROGRESS,
-      currentSession: {
-        startTime: Date.now(),
-        attempts: 0,
-        correct: 0,
-        patternsReviewed: new Set(),
-        patternsMasteredThisSession: 0,
-      },
-    });
-  }, []);
+    dispatch({ type: 'reset' });
+  }, [dispatch]);
 
   const value: LearningProgressContextType = {
     progress,
@@ -499,6 +766,7 @@ export function LearningProgressProvider({ children }: LearningProgressProviderP
     getPatternStats,
     getMasteryGrid,
     getOverallStats,
+    setScheduler,
     startNewSession,
     endSession,
     resetProgress,
@@ -0,0 +1,97 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode, Fragment } from 'react';
+import {
+  DEFAULT_PLAYER_ID,
+  DEFAULT_PLAYERS,
+  Player,
+  StoredPlayers,
+  createPlayer as createStoredPlayer,
+  deletePlayerData,
+  loadPlayers,
+  savePlayers,
+  setActivePlayerId,
+} from '@/lib/players';
+
+interface PlayersContextType {
+  players: Player[];
+  activePlayer: Player;
+  switchPlayer: (id: string) => void;
+  createPlayer: (name: string) => void;
+  renamePlayer: (id: string, name: string) => void;
+  deletePlayer: (id: string) => void;
+}
+
+const PlayersContext = createContext<PlayersContextType | null>(null);
+
+/**
+ * Player profiles. Everything inside is remounted when the active player
+ * changes, so each provider loads that player's data.
+ */
+export function PlayersProvider({ children }: { children: ReactNode }) {
+  const [stored, setStored] = useState<StoredPlayers>(DEFAULT_PLAYERS);
+
+  // Load from storage after hydration
+  useEffect(() => {
+    loadPlayers().then(setStored);
+  }, []);
+
+  const activePlayer = stored.players.find(p => p.id === stored.activePlayerId) ?? DEFAULT_PLAYERS.players[0];
+
+  // The new player's values must be in place before anything remounts
+  const updateStored = useCallback((next: StoredPlayers) => {
+    setActivePlayerId(next.activePlayerId);
+    setStored(next);
+    savePlayers(next);
+  }, []);
+
+  const switchPlayer = useCallback((id: string) => {
+    if (stored.players.some(p => p.id === id)) {
+      updateStored({ ...stored, activePlayerId: id });
+    }
+  }, [stored, updateStored]);
+
+  const createPlayer = useCallback((name: string) => {
+    const player = createStoredPlayer(name);
+    updateStored({ activePlayerId: player.id, players: [...stored.players, player] });
+  }, [stored, updateStored]);
+
+  const renamePlayer = useCallback((id: string, name: string) => {
+    updateStored({
+      ...stored,
+      players: stored.players.map(p => p.id === id ? { ...p, name } : p),
+    });
+  }, [stored, updateStored]);
+
+  const deletePlayer = useCallback((id: string) => {
+    if (id === DEFAULT_PLAYER_ID) return;
+    updateStored({
+      activePlayerId: stored.activePlayerId === id ? DEFAULT_PLAYER_ID : stored.activePlayerId,
+      players: stored.players.filter(p => p.id !== id),
+    });
+    deletePlayerData(id);
+  }, [stored, updateStored]);
+
+  return (
+    <PlayersContext.Provider value={{
+      players: stored.players,
+      activePlayer,
+      switchPlayer,
+      createPlayer,
+      renamePlayer,
+      deletePlayer,
+    }}>
+      <Fragment key={activePlayer.id}>
+        {children}
+      </Fragment>
+    </PlayersContext.Provider>
+  );
+}
+
+export function usePlayers() {
+  const context = useContext(PlayersContext);
+  if (!context) {
+    throw new Error('usePlayers must be used within PlayersProvider');
+  }
+  return context;
+}
@@ -1,6 +1,9 @@
 "use client";
 
-import { createContext, useContext, useState, useCallback, useRef, useEffect } from 'react';
+import { createContext, useContext, useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { DifficultySystemContext } from '@/hooks/use-difficulty-system';
+import { RhythmSessionStats, updateCurrentSession } from '@/lib/session-history';
+import { getPlayerValue, setPlayerValue } from '@/lib/players';
 
 /**
  * Hit judgment types - from best to worst
@@ -10,15 +13,30 @@ import { createContext, useContext, useState, useCallback, useRef, useEffect } f
 export type HitJudgment = 'PERFECT' | 'GREAT' | 'GOOD' | 'TOO_SLOW' | 'MISS';
 
 /**
- * Timing thresholds in milliseconds
- * Shifted to be more achievable - old GREAT is now PERFECT
+ * Timing thresholds in milliseconds - a hit under each is that judgment
  */
-export const TIMING_THRESHOLDS = {
-  PERFECT: 800,   // Under 0.8s = Perfect (was Great)
-  GREAT: 1200,    // Under 1.2s = Great
-  GOOD: 1800,     // Under 1.8s = Good
-  // Above 1.5s = Miss (timeout) or wrong input
-};
+export interface TimingThresholds {
+  PERFECT: number;
+  GREAT: number;
+  GOOD: number;
+}
+
+/**
+ * Judgment windows inside a tier's time limit - GOOD ends at the limit,
+ * GREAT and PERFECT at 1/1.5 and 1/2.25 of it
+ */
+export function getTimingThresholds(timeLimit: number): TimingThresholds {
+  return {
+    PERFECT: Math.round(timeLimit / 2.25),
+    GREAT: Math.round(timeLimit / 1.5),
+    GOOD: timeLimit,
+  };
+}
+
+/**
+ * Windows used without a difficulty system (0.8s / 1.2s / 1.8s)
+ */
+export const DEFAULT_TIMING_THRESHOLDS = getTimingThresholds(1800);
 
 /**
  * Points awarded for each judgment
@@ -43,9 +61,9 @@ export const JUDGMENT_COLORS: Record<HitJudgment, string> = {
 };
 
 /**
- * Max time for timing bar animation
+ * How far past the time limit the timing bar runs
  */
-export const TIMING_BAR_MAX_TIME = TIMING_THRESHOLDS.GOOD + 500;
+const TIMING_BAR_OVERRUN = 500;
 
 /**
  * Rhythm state for the current pattern
@@ -80,6 +98,9 @@ export interface RhythmState {
 
   // Pause state
   isPaused: boolean;
+
+  // This visit's results, for the session history
+  session: RhythmSessionStats;
 }
 
 const DEFAULT_RHYTHM_STATE: RhythmState = {
@@ -99,14 +120,71 @@ const DEFAULT_RHYTHM_STATE: RhythmState = {
   estimatedBPM: 120,
   ringActive: false,
   isPaused: false,
+  session: {
+    score: 0,
+    maxCombo: 0,
+    judgments: { PERFECT: 0, GREAT: 0, GOOD: 0, TOO_SLOW: 0, MISS: 0 },
+  },
 };
 
+export const RHYTHM_STORAGE_KEY = 'finesse-rhythm-state';
+// Bump when the stored shape changes
+const RHYTHM_STORAGE_VERSION = 1;
+
+/**
+ * Rhythm stats that survive a reload - timing, animation and the session's
+ * own results don't
+ */
+type PersistedRhythmState = Pick<RhythmState,
+  'perfectCount' | 'greatCount' | 'goodCount' | 'tooSlowCount' | 'missCount' |
+  'totalScore' | 'rhythmCombo' | 'maxRhythmCombo' | 'currentMultiplier' | 'estimatedBPM'>;
+
+interface StoredRhythmState {
+  version: number;
+  state: PersistedRhythmState;
+}
+
+function serializeRhythmState(state: RhythmState): StoredRhythmState {
+  const persisted: PersistedRhythmState = {
+    perfectCount: state.perfectCount,
+    greatCount: state.greatCount,
+    goodCount: state.goodCount,
+    tooSlowCount: state.tooSlowCount,
+    missCount: state.missCount,
+    totalScore: state.totalScore,
+    rhythmCombo: state.rhythmCombo,
+    maxRhythmCombo: state.maxRhythmCombo,
+    currentMultiplier: state.currentMultiplier,
+    estimatedBPM: state.estimatedBPM,
+  };
+  return { version: RHYTHM_STORAGE_VERSION, state: persisted };
+}
+
+/**
+ * Load persisted rhythm stats (null when there are none for this version)
+ */
+async function loadRhythmState(): Promise<Partial<PersistedRhythmState> | null> {
+  const stored = await getPlayerValue<StoredRhythmState>(RHYTHM_STORAGE_KEY);
+  // No older versions to migrate yet
+  if (!stored || stored.version !== RHYTHM_STORAGE_VERSION) return null;
+  return stored.state;
+}
+
 /**
  * Rhythm system context
  */
 export interface RhythmSystemContextType {
   state: RhythmState;
 
+  // Judgment windows of the active difficulty tier
+  thresholds: TimingThresholds;
+  // Only PERFECT counts - slower correct hits are TOO_SLOW
+  perfectRequired: boolean;
+  // Time after which a pattern is TOO_SLOW
+  timeLimit: number;
+  // Max time for timing bar and ring animation
+  timingBarMaxTime: number;
+
   // Core methods
   startPattern: () => void;
   recordHit: (correct: boolean, reason?: 'timeout' | 'wrong') => HitJudgment;
@@ -185,6 +263,40 @@ export function RhythmSystemProvider({ children }: RhythmSystemProviderProps) {
   const [state, setState] = useState<RhythmState>(DEFAULT_RHYTHM_STATE);
   const startTimeRef = useRef<number | null>(null);
   const pausedElapsedRef = useRef<number>(0); // Elapsed time when paused
+  const mountedRef = useRef(false);
+
+  // Load persisted stats on mount (client-only)
+  useEffect(() => {
+    loadRhythmState().then(stored => {
+      if (stored) {
+        setState(prev => ({ ...prev, ...stored }));
+      }
+      mountedRef.current = true;
+    });
+  }, []);
+
+  // Save after the initial load
+  useEffect(() => {
+    if (mountedRef.current) {
+      setPlayerValue(RHYTHM_STORAGE_KEY, serializeRhythmState(state));
+    }
+  }, [state]);
+
+  // Keep this visit's results in the session history once there are any
+  useEffect(() => {
+    if (state.session.score > 0 || Object.values(state.session.judgments).some(count => count > 0)) {
+      updateCurrentSession({ rhythm: state.session });
+    }
+  }, [state.session]);
+
+  // Windows follow the active difficulty tier (optional - defaults without the provider)
+  const tierSettings = useContext(DifficultySystemContext)?.tierSettings;
+  const tierTimeLimit = tierSettings?.timeThreshold;
+  const perfectRequired = tierSettings?.perfectRequired ?? false;
+  const thresholds = useMemo(() => {
+    return tierTimeLimit ? getTimingThresholds(tierTimeLimit) : DEFAULT_TIMING_THRESHOLDS;
+  }, [tierTimeLimit]);
+  const timeLimit = thresholds.GOOD;
 
   /**
    * Start timing for a new pattern
@@ -211,11 +323,13 @@ export function RhythmSystemProvider({ children }: RhythmSystemProviderProps) {
       // Distinguish between timeout and wrong move
       return reason === 'timeout' ? 'TOO_SLOW' : 'MISS';
     }
-    if (ms <= TIMING_THRESHOLDS.PERFECT) return 'PERFECT';
-    if (ms <= TIMING_THRESHOLDS.GREAT) return 'GREAT';
-    if (ms <= TIMING_THRESHOLDS.GOOD) return 'GOOD';
+    if (ms <= thresholds.PERFECT) return 'PERFECT';
+    // Anything slower than PERFECT fails on tiers that require it
+    if (perfectRequired) return 'TOO_SLOW';
+    if (ms <= thresholds.GREAT) return 'GREAT';
+    if (ms <= thresholds.GOOD) return 'GOOD';
     return 'TOO_SLOW'; // Over time but correct - shouldn't happen normally
-  }, []);
+  }, [thresholds, perfectRequired]);
 
   /**
    * Record a hit and return the judgment
@@ -226,7 +340,7 @@ export function RhythmSystemProvider({ children }: RhythmSystemProviderProps) {
     const now = performance.now();
     const elapsed = startTimeRef.current !== null
       ? now - startTimeRef.current
-      : TIMING_THRESHOLDS.GOOD + 1;
+      : timeLimit + 1;
 
     const judgment = getJudgmentForTime(elapsed, correct, reason);
     const points = JUDGMENT_POINTS[judgment];
@@ -257,6 +371,11 @@ export function RhythmSystemProvider({ children }: RhythmSystemProviderProps) {
         recentHitTimes: newHitTimes,
         estimatedBPM: newBPM,
         ringActive: false,
+        session: {
+          score: prev.session.score + earnedPoints,
+          maxCombo: Math.max(prev.session.maxCombo, newCombo),
+          judgments: { ...prev.session.judgments, [judgment]: prev.session.judgments[judgment] + 1 },
+        },
       };
     });
 
@@ -264,7 +383,7 @@ export function RhythmSystemProvider({ children }: RhythmSystemProviderProps) {
     startTimeRef.current = null;
 
     return judgment;
-  }, [getJudgmentForTime]);
+  }, [getJudgmentForTime, timeLimit]);
 
   /**
    * Pause the timer - saves current elapsed time
@@ -308,15 +427,19 @@ export function RhythmSystemProvider({ children }: RhythmSystemProviderProps) {
   }, []);
 
   /**
-   * Reset all rhythm stats
+   * Reset all rhythm stats (the session's results carry on)
    */
   const resetRhythm = useCallback(() => {
     startTimeRef.current = null;
-    setState(DEFAULT_RHYTHM_STATE);
+    setState(prev => ({ ...DEFAULT_RHYTHM_STATE, session: prev.session }));
   }, []);
 
   const value: RhythmSystemContextType = {
     state,
+    thresholds,
+    perfectRequired,
+    timeLimit,
+    timingBarMaxTime: timeLimit + TIMING_BAR_OVERRUN,
     startPattern,
     recordHit,
     resetRhythm,
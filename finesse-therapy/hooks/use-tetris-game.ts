@@ -1,915 +1,205 @@
 "use client";
 
 import { useState, useCallback, useEffect, useRef, useContext } from 'react';
-import { TetrominoType, TETROMINO_SHAPES } from '@/lib/types';
-import { FinesseMove, PieceIndex, generateTarget, compareMoves, getOptimalMoves } from '@/lib/finesse-data';
+import { TetrominoType, GameAction } from '@/lib/types';
+import { FinesseMove } from '@/lib/finesse-data';
+import { GameEngine, EngineEvent, EngineInput, EngineState, GameMode, Target, isSameHandling } from '@/lib/game-engine';
+import { Piece } from '@/lib/board';
 import { useGameSettings } from '@/hooks/use-game-settings';
 import { LearningProgressContext } from '@/hooks/use-learning-progress';
+import { DifficultySystemContext } from '@/hooks/use-difficulty-system';
+import { KEY_BINDINGS_VERSION } from '@/hooks/use-key-bindings';
+import { ReplayRecorder, saveReplay } from '@/lib/replay';
+import { saveMasterRun } from '@/lib/personal-best';
+import { GamepadPoller } from '@/lib/gamepad';
+import type { ReviewJudgment } from '@/lib/scheduler';
+
+export type { GameMode } from '@/lib/game-engine';
+
+// Receives gamepad presses and releases, stamped with the frame they were polled on
+export type GamepadHandler = (button: number, pressed: boolean, timestamp: number) => void;
+
+/**
+ * React wrapper around the headless GameEngine.
+ * The engine owns all game state; this hook feeds it key events and
+ * animation frames, then mirrors the state React needs for rendering.
+ */
+export function useTetrisGame() {
+  // Game settings
+  const { settings } = useGameSettings();
 
-const GRID_WIDTH = 10;
-const GRID_HEIGHT = 20;
-const STARTING_COL = 3;
-
-type Cell = TetrominoType | null;
-
-// SRS Wall Kick Data
-// Format: [fromRotation][toRotation] = [[dx, dy], ...]
-// Note: In our grid Y increases downward, so SRS Y offsets are negated
-// For J, L, S, T, Z pieces
-const JLSTZ_KICKS: [number, number][][][] = [
-  // From state 0
-  [
-    [], // 0 -> 0 (no rotation)
-    [[ 0, 0], [-1, 0], [-1,-1], [ 0, 2], [-1, 2]], // 0 -> R (CW)
-    [[ 0, 0]], // 0 -> 2 (180) - simple, just try basic
-    [[ 0, 0], [ 1, 0], [ 1,-1], [ 0, 2], [ 1, 2]], // 0 -> L (CCW)
-  ],
-  // From state R (1)
-  [
-    [[ 0, 0], [ 1, 0], [ 1, 1], [ 0,-2], [ 1,-2]], // R -> 0 (CCW)
-    [], // R -> R (no rotation)
-    [[ 0, 0], [ 1, 0], [ 1, 1], [ 0,-2], [ 1,-2]], // R -> 2 (CW)
-    [[ 0, 0]], // R -> L (180)
-  ],
-  // From state 2
-  [
-    [[ 0, 0]], // 2 -> 0 (180)
-    [[ 0, 0], [-1, 0], [-1,-1], [ 0, 2], [-1, 2]], // 2 -> R (CCW)
-    [], // 2 -> 2 (no rotation)
-    [[ 0, 0], [ 1, 0], [ 1,-1], [ 0, 2], [ 1, 2]], // 2 -> L (CW)
-  ],
-  // From state L (3)
-  [
-    [[ 0, 0], [-1, 0], [-1, 1], [ 0,-2], [-1,-2]], // L -> 0 (CW)
-    [[ 0, 0]], // L -> R (180)
-    [[ 0, 0], [-1, 0], [-1, 1], [ 0,-2], [-1,-2]], // L -> 2 (CCW)
-    [], // L -> L (no rotation)
-  ],
-];
-
-// For I piece - uses different kick table
-const I_KICKS: [number, number][][][] = [
-  // From state 0
-  [
-    [], // 0 -> 0
-    [[ 0, 0], [-2, 0], [ 1, 0], [-2, 1], [ 1,-2]], // 0 -> R (CW)
-    [[ 0, 0]], // 0 -> 2 (180)
-    [[ 0, 0], [-1, 0], [ 2, 0], [-1,-2], [ 2, 1]], // 0 -> L (CCW)
-  ],
-  // From state R (1)
-  [
-    [[ 0, 0], [ 2, 0], [-1, 0], [ 2,-1], [-1, 2]], // R -> 0 (CCW)
-    [], // R -> R
-    [[ 0, 0], [-1, 0], [ 2, 0], [-1,-2], [ 2, 1]], // R -> 2 (CW)
-    [[ 0, 0]], // R -> L (180)
-  ],
-  // From state 2
-  [
-    [[ 0, 0]], // 2 -> 0 (180)
-    [[ 0, 0], [ 1, 0], [-2, 0], [ 1, 2], [-2,-1]], // 2 -> R (CCW)
-    [], // 2 -> 2
-    [[ 0, 0], [ 2, 0], [-1, 0], [ 2,-1], [-1, 2]], // 2 -> L (CW)
-  ],
-  // From state L (3)
-  [
-    [[ 0, 0], [ 1, 0], [-2, 0], [ 1, 2], [-2,-1]], // L -> 0 (CW)
-    [[ 0, 0]], // L -> R (180)
-    [[ 0, 0], [-2, 0], [ 1, 0], [-2, 1], [ 1,-2]], // L -> 2 (CCW)
-    [], // L -> L
-  ],
-];
-
-interface Piece {
-  type: TetrominoType;
-  rotation: number;
-  x: number;
-  y: number;
-}
-
-interface Target {
-  column: number;
-  rotation: number;
-  moves: FinesseMove[][];
-}
-
-export type GameMode = 'RANDOM' | 'Z_ONLY' | 'S_ONLY' | 'I_ONLY' | 'T_ONLY' | 'O_ONLY' | 'L_ONLY' | 'J_ONLY' | 'FREE_STACK' | 'LEARNING';
-
-const PIECE_MAP: Record<string, PieceIndex> = {
-  'Z': 0, 'S': 1, 'I': 2, 'T': 3, 'O': 4, 'L': 5, 'J': 6
-};
+  // Learning progress context (optional - only available when provider is mounted)
+  const learningContext = useContext(LearningProgressContext);
+  const learningContextRef = useRef(learningContext);
 
-const MODE_PIECES: Record<GameMode, TetrominoType[] | null> = {
-  'RANDOM': null,
-  'Z_ONLY': ['Z'],
-  'S_ONLY': ['S'],
-  'I_ONLY': ['I'],
-  'T_ONLY': ['T'],
-  'O_ONLY': ['O'],
-  'L_ONLY': ['L'],
-  'J_ONLY': ['J'],
-  'FREE_STACK': null,
-  'LEARNING': null,
-};
+  useEffect(() => {
+    learningContextRef.current = learningContext;
+  }, [learningContext]);
 
-function createEmptyGrid(): Cell[][] {
-  return Array.from({ length: GRID_HEIGHT }, () => Array(GRID_WIDTH).fill(null));
-}
+  // Difficulty tier decides how weak and new patterns are weighted in LEARNING mode
+  const getPatternSelectionParams = useContext(DifficultySystemContext)?.getPatternSelectionParams;
 
-function generateBag(mode: GameMode): TetrominoType[] {
-  const pieces: TetrominoType[] = MODE_PIECES[mode] || ['I', 'O', 'T', 'S', 'Z', 'J', 'L'];
-  const bag = [...pieces];
-  for (let i = bag.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [bag[i], bag[j]] = [bag[j], bag[i]];
-  }
-  return bag;
-}
+  const [engine] = useState(() => new GameEngine());
 
-export function useTetrisGame() {
-  const [grid, setGrid] = useState<Cell[][]>(createEmptyGrid());
+  const [grid, setGrid] = useState(engine.state.grid);
   const [currentPiece, setCurrentPiece] = useState<Piece | null>(null);
   const [nextQueue, setNextQueue] = useState<TetrominoType[]>([]);
   const [holdPiece, setHoldPiece] = useState<TetrominoType | null>(null);
   const [canHold, setCanHold] = useState(true);
   const [gameOver, setGameOver] = useState(true);
-  const [gameMode, setGameMode] = useState<GameMode>('RANDOM');
-
-  // Game settings
-  const { settings } = useGameSettings();
-
-  // Learning progress context (optional - only available when provider is mounted)
-  const learningContext = useContext(LearningProgressContext);
+  const [gameMode, setGameMode] = useState<GameMode>(engine.state.mode);
+  const [seed, setSeed] = useState(engine.state.seed);
+  const [lines, setLines] = useState(0);
+  const [sprint, setSprint] = useState<EngineState['sprint']>(null);
+  const [master, setMaster] = useState<EngineState['master']>(null);
 
-  // Current learning target (for LEARNING mode)
-  const learningTargetRef = useRef<{ piece: TetrominoType; column: number; rotation: number } | null>(null);
+  // Personal best after the last Master Mode run ended
+  const [masterResult, setMasterResult] = useState<Awaited<ReturnType<typeof saveMasterRun>> | null>(null);
 
   // Target for finesse practice
   const [target, setTarget] = useState<Target | null>(null);
 
   // Stats
-  const [score, setScore] = useState({
-    correct: 0,
-    total: 0,
-    combo: 0,
-    topCombo: 0,
-    kpp: 0,
-    totalKeys: 0
-  });
+  const [score, setScore] = useState(engine.state.score);
 
   // Move tracking for display
   const [currentMoves, setCurrentMoves] = useState<FinesseMove[]>([]);
 
-  // Refs for move tracking
-  const moveListRef = useRef<FinesseMove[]>([]);
-  const keyCountRef = useRef(0);
-  const leftHeldRef = useRef(false);
-  const rightHeldRef = useRef(false);
-  const softDropHeldRef = useRef(false);
-  const leftDasRef = useRef(false);
-  const rightDasRef = useRef(false);
-  const leftDasCounterRef = useRef(0);
-  const rightDasCounterRef = useRef(0);
-  const leftArrCounterRef = useRef(0);
-  const rightArrCounterRef = useRef(0);
-  const softDropCounterRef = useRef(0);
-
-  const bagRef = useRef<TetrominoType[]>([]);
-  const nextBagRef = useRef<TetrominoType[]>([]);
-
-  // Refs for state to avoid stale closures in callbacks
-  const gridRef = useRef(grid);
-  const currentPieceRef = useRef<Piece | null>(currentPiece);
-  const gameOverRef = useRef(gameOver);
-
-  // Sync grid and gameOver refs with state (these are read-only refs)
-  // NOTE: currentPieceRef is managed manually - do NOT sync it here
-  // because DAS movements update the ref directly without state updates
-  useEffect(() => {
-    gridRef.current = grid;
-    gameOverRef.current = gameOver;
-  }, [grid, gameOver]);
-
-  const getNextPiece = useCallback(() => {
-    if (bagRef.current.length === 0) {
-      bagRef.current = nextBagRef.current.length > 0
-        ? [...nextBagRef.current]
-        : generateBag(gameMode);
-      nextBagRef.current = generateBag(gameMode);
-    }
-    return bagRef.current.shift()!;
-  }, [gameMode]);
+  // Last placement's inputs and verdict for fault diagnosis
+  const [lastResult, setLastResult] = useState<EngineState['lastResult']>(null);
 
-  const selectTarget = useCallback((pieceType: TetrominoType) => {
-    if (gameMode === 'FREE_STACK') {
-      setTarget(null);
-      learningTargetRef.current = null;
-      return;
-    }
+  // Canvas reads the live piece from this ref every frame, so DAS movement
+  // doesn't need a React render
+  const currentPieceRef = useRef<Piece | null>(null);
 
-    // In LEARNING mode, use the learning progress system to select target
-    if (gameMode === 'LEARNING' && learningContext) {
-      const learningTarget = learningContext.selectNextLearningPattern();
-      if (learningTarget) {
-        setTarget({
-          column: learningTarget.column,
-          rotation: learningTarget.rotation,
-          moves: learningTarget.moves,
-        });
-        learningTargetRef.current = {
-          piece: learningTarget.piece,
-          column: learningTarget.column,
-          rotation: learningTarget.rotation,
-        };
-        return;
-      }
-      // Fallback to random if no learning target available
-    }
+  // Replay of the session in progress, saved when the session ends
+  const recorderRef = useRef<ReplayRecorder | null>(null);
 
-    // Default behavior for other modes
-    const pieceIndex = PIECE_MAP[pieceType];
-    const newTarget = generateTarget(pieceIndex);
-    setTarget(newTarget);
-    learningTargetRef.current = null;
-  }, [gameMode, learningContext]);
+  // Maps gamepad buttons to actions - set by the board, which owns bindings
+  const gamepadHandlerRef = useRef<GamepadHandler | null>(null);
 
-  // Update next queue based on current bag state
-  const updateNextQueue = useCallback(() => {
-    const preview: TetrominoType[] = [];
-    let bagIndex = 0;
-    let nextBagIndex = 0;
+  // Time the tab spent hidden (ms). The engine simulates every millisecond
+  // it's stepped over, so its clock stops while hidden instead of catching
+  // up on the whole absence when the tab comes back
+  const hiddenTimeRef = useRef(0);
 
-    // Build preview of next 5 pieces
-    while (preview.length < 5) {
-      if (bagIndex < bagRef.current.length) {
-        preview.push(bagRef.current[bagIndex]);
-        bagIndex++;
-      } else if (nextBagIndex < nextBagRef.current.length) {
-        preview.push(nextBagRef.current[nextBagIndex]);
-        nextBagIndex++;
-      } else {
-        // Generate more if needed - reset index since it's a fresh bag
-        nextBagRef.current = generateBag(gameMode);
-        nextBagIndex = 0;
-        preview.push(nextBagRef.current[nextBagIndex]);
-        nextBagIndex++;
-      }
-    }
-    setNextQueue(preview);
-  }, [gameMode]);
-
-  const spawnPiece = useCallback((type?: TetrominoType) => {
-    // For LEARNING mode, select target first to know which piece to spawn
-    if (gameMode === 'LEARNING' && learningContext && !type) {
-      const learningTarget = learningContext.selectNextLearningPattern();
-      if (learningTarget) {
-        const newPiece: Piece = {
-          type: learningTarget.piece,
-          rotation: 0,
-          x: STARTING_COL,
-          y: learningTarget.piece === 'I' ? -1 : 0
-        };
-
-        setCurrentPiece(newPiece);
-        currentPieceRef.current = newPiece;
-        setCanHold(true);
-        moveListRef.current = [];
-        setCurrentMoves([]);
-        keyCountRef.current = 0;
-
-        setTarget({
-          column: learningTarget.column,
-          rotation: learningTarget.rotation,
-          moves: learningTarget.moves,
-        });
-        learningTargetRef.current = {
-          piece: learningTarget.piece,
-          column: learningTarget.column,
-          rotation: learningTarget.rotation,
-        };
-
-        // Update next queue for preview (still use bag system for preview)
-        updateNextQueue();
-        return;
+  useEffect(() => {
+    let hiddenAt: number | null = null;
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        hiddenAt = performance.now();
+      } else if (hiddenAt !== null) {
+        hiddenTimeRef.current += performance.now() - hiddenAt;
+        hiddenAt = null;
       }
-    }
-
-    const pieceType = type || getNextPiece();
-    const newPiece: Piece = {
-      type: pieceType,
-      rotation: 0,
-      x: STARTING_COL,
-      y: pieceType === 'I' ? -1 : 0
-    };
-
-    setCurrentPiece(newPiece);
-    // Update ref immediately so key handlers in same frame can see the new piece
-    currentPieceRef.current = newPiece;
-    setCanHold(true);
-    moveListRef.current = [];
-    setCurrentMoves([]);
-    keyCountRef.current = 0;
-
-    // Select target for finesse practice
-    selectTarget(pieceType);
-
-    // Update next queue preview
-    if (!type) {
-      updateNextQueue();
-    }
-  }, [gameMode, learningContext, getNextPiece, selectTarget, updateNextQueue]);
-
-  // Reset piece to starting position (for retry on fault)
-  const resetPiece = useCallback((resetCombo = true) => {
-    const piece = currentPieceRef.current;
-    if (!piece) return;
-
-    const resetPiece = {
-      type: piece.type,
-      rotation: 0,
-      x: STARTING_COL,
-      y: piece.type === 'I' ? -1 : 0
     };
-    // Update both ref and state
-    currentPieceRef.current = resetPiece;
-    setCurrentPiece(resetPiece);
-
-    moveListRef.current = [];
-    setCurrentMoves([]);
-    keyCountRef.current = 0;
-    leftDasRef.current = false;
-    rightDasRef.current = false;
-
-    // Reset DAS timing refs
-    leftHeldRef.current = false;
-    rightHeldRef.current = false;
-    softDropHeldRef.current = false;
-
-    // Reset combo when fault occurs
-    if (resetCombo) {
-      setScore(prev => ({ ...prev, combo: 0 }));
-    }
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
   }, []);
 
-  const checkCollision = useCallback((piece: Piece, offsetX = 0, offsetY = 0, newRotation?: number): boolean => {
-    const rotation = newRotation ?? piece.rotation;
-    const shape = TETROMINO_SHAPES[piece.type][rotation];
-
-    for (let y = 0; y < shape.length; y++) {
-      for (let x = 0; x < shape[y].length; x++) {
-        if (shape[y][x]) {
-          const newX = piece.x + x + offsetX;
-          const newY = piece.y + y + offsetY;
-
-          if (newX < 0 || newX >= GRID_WIDTH || newY >= GRID_HEIGHT) {
-            return true;
-          }
-
-          if (newY >= 0 && grid[newY][newX]) {
-            return true;
-          }
-        }
-      }
-    }
-    return false;
-  }, [grid]);
-
-  const movePiece = useCallback((dx: number, dy: number): boolean => {
-    const piece = currentPieceRef.current;
-    if (!piece || gameOverRef.current) return false;
-
-    if (!checkCollision(piece, dx, dy)) {
-      const newPiece = { ...piece, x: piece.x + dx, y: piece.y + dy };
-      currentPieceRef.current = newPiece;
-      setCurrentPiece(newPiece);
-      return true;
-    }
-    return false;
-  }, [checkCollision]);
-
-  // Get wall kick table for a piece type
-  const getKickTable = useCallback((type: TetrominoType) => {
-    if (type === 'I') return I_KICKS;
-    if (type === 'O') return null; // O doesn't need kicks
-    return JLSTZ_KICKS;
-  }, []);
-
-  const rotatePiece = useCallback((direction: 1 | -1) => {
-    // Use ref to get latest piece (handles same-frame updates after hold)
-    const piece = currentPieceRef.current;
-    if (!piece || gameOverRef.current) return;
-
-    const fromRotation = piece.rotation;
-    const toRotation = (fromRotation + direction + 4) % 4;
-    const kickTable = getKickTable(piece.type);
-
-    // O piece doesn't rotate meaningfully
-    if (piece.type === 'O') return;
-
-    // Get kick tests for this rotation
-    const kicks = kickTable ? kickTable[fromRotation][toRotation] : [[0, 0]];
-
-    // Check collision using ref's grid
-    const currentGrid = gridRef.current;
-    const checkCollisionForPiece = (p: Piece, offsetX: number, offsetY: number, newRotation: number): boolean => {
-      const shape = TETROMINO_SHAPES[p.type][newRotation];
-      for (let y = 0; y < shape.length; y++) {
-        for (let x = 0; x < shape[y].length; x++) {
-          if (shape[y][x]) {
-            const newX = p.x + x + offsetX;
-            const newY = p.y + y + offsetY;
-            if (newX < 0 || newX >= GRID_WIDTH || newY >= GRID_HEIGHT) {
-              return true;
-            }
-            if (newY >= 0 && currentGrid[newY][newX]) {
-              return true;
-            }
-          }
-        }
-      }
-      return false;
-    };
-
-    // Try each kick offset
-    for (const [dx, dy] of kicks) {
-      if (!checkCollisionForPiece(piece, dx, dy, toRotation)) {
-        const newPiece = {
-          ...piece,
-          rotation: toRotation,
-          x: piece.x + dx,
-          y: piece.y + dy
-        };
-        setCurrentPiece(newPiece);
-        currentPieceRef.current = newPiece;
-        keyCountRef.current++;
-        const move: FinesseMove = direction === 1 ? 'C' : 'CC';
-        moveListRef.current.push(move);
-        setCurrentMoves([...moveListRef.current]);
-        return;
-      }
-    }
-  }, [getKickTable]);
-
-  const rotate180 = useCallback(() => {
-    const piece = currentPieceRef.current;
-    const currentGrid = gridRef.current;
-    if (!piece || gameOverRef.current) return;
-
-    // O piece doesn't rotate meaningfully
-    if (piece.type === 'O') return;
-
-    const fromRotation = piece.rotation;
-    const toRotation = (fromRotation + 2) % 4;
-    const kickTable = getKickTable(piece.type);
-
-    // Get kick tests for 180 rotation
-    const kicks = kickTable ? kickTable[fromRotation][toRotation] : [[0, 0]];
-
-    // Check collision using refs
-    const checkCollisionForRotation = (p: Piece, offsetX: number, offsetY: number, newRotation: number): boolean => {
-      const shape = TETROMINO_SHAPES[p.type][newRotation];
-      for (let y = 0; y < shape.length; y++) {
-        for (let x = 0; x < shape[y].length; x++) {
-          if (shape[y][x]) {
-            const newX = p.x + x + offsetX;
-            const newY = p.y + y + offsetY;
-            if (newX < 0 || newX >= GRID_WIDTH || newY >= GRID_HEIGHT) {
-              return true;
-            }
-            if (newY >= 0 && currentGrid[newY][newX]) {
-              return true;
-            }
-          }
-        }
-      }
-      return false;
-    };
-
-    // Try each kick offset
-    for (const [dx, dy] of kicks) {
-      if (!checkCollisionForRotation(piece, dx, dy, toRotation)) {
-        const newPiece = {
-          ...piece,
-          rotation: toRotation,
-          x: piece.x + dx,
-          y: piece.y + dy
-        };
-        currentPieceRef.current = newPiece;
-        setCurrentPiece(newPiece);
-        keyCountRef.current++;
-        // 180 rotation counts as 2 rotations for finesse (C, C or CC, CC)
-        moveListRef.current.push('C');
-        moveListRef.current.push('C');
-        setCurrentMoves([...moveListRef.current]);
-        return;
-      }
-    }
-  }, [getKickTable]);
-
-  const hardDrop = useCallback(() => {
-    // Read from ref for accurate position (state may be stale from DAS movements)
-    const piece = currentPieceRef.current;
-    const currentGrid = gridRef.current;
-    if (!piece || gameOverRef.current) return;
-
-    // Calculate drop distance using refs
-    let dropDistance = 0;
-    while (true) {
-      const testY = dropDistance + 1;
-      const shape = TETROMINO_SHAPES[piece.type][piece.rotation];
-      let collision = false;
-
-      for (let py = 0; py < shape.length && !collision; py++) {
-        for (let px = 0; px < shape[py].length && !collision; px++) {
-          if (shape[py][px]) {
-            const newY = piece.y + py + testY;
-            const newX = piece.x + px;
-            if (newY >= GRID_HEIGHT || (newY >= 0 && currentGrid[newY]?.[newX])) {
-              collision = true;
-            }
-          }
-        }
-      }
-
-      if (collision) break;
-      dropDistance++;
-    }
-
-    const finalPiece = { ...piece, y: piece.y + dropDistance };
-
-    // Add DROP to move list
-    moveListRef.current.push('DROP');
-    keyCountRef.current++;
-    setCurrentMoves([...moveListRef.current]);
-
-    // Check finesse
-    let isCorrect = false;
-
-    // Calculate the leftmost filled column of the piece
-    const shape = TETROMINO_SHAPES[finalPiece.type][finalPiece.rotation];
-    let leftmostFilledCol = shape[0].length;
-    for (let y = 0; y < shape.length; y++) {
-      for (let x = 0; x < shape[y].length; x++) {
-        if (shape[y][x] && x < leftmostFilledCol) {
-          leftmostFilledCol = x;
-        }
-      }
-    }
-    // The actual column is the bounding box x plus the leftmost filled offset
-    const actualColumn = finalPiece.x + leftmostFilledCol;
-
-    if (target && gameMode !== 'FREE_STACK') {
-      // Check if position matches target (comparing actual leftmost columns)
-      // For Z, S, I pieces: rotations 0/2 are equivalent, and rotations 1/3 are equivalent
-      const pieceType = finalPiece.type;
-      const isTwoRotationPiece = pieceType === 'Z' || pieceType === 'S' || pieceType === 'I';
-      const rotationMatches = isTwoRotationPiece
-        ? (finalPiece.rotation % 2) === (target.rotation % 2)
-        : finalPiece.rotation === target.rotation;
-      const positionCorrect = actualColumn === target.column && rotationMatches;
-
-      // For Z, S, I pieces, check moves against both equivalent rotations (1 and 3)
-      // since CW and CCW both reach valid vertical positions with different finesse
-      let movesCorrect = compareMoves(moveListRef.current, target.moves);
-      if (!movesCorrect && isTwoRotationPiece && rotationMatches) {
-        // Get moves for the player's actual rotation
-        const pieceIndex = PIECE_MAP[piece.type];
-        const playerRotationMoves = getOptimalMoves(pieceIndex, actualColumn, finalPiece.rotation);
-        movesCorrect = compareMoves(moveListRef.current, playerRotationMoves);
-      }
-
-      isCorrect = positionCorrect && movesCorrect;
-    } else if (gameMode === 'FREE_STACK') {
-      // In free stack, check finesse for the actual position
-      const pieceIndex = PIECE_MAP[piece.type];
-      const optimalMoves = getOptimalMoves(pieceIndex, actualColumn, finalPiece.rotation);
-      isCorrect = compareMoves(moveListRef.current, optimalMoves);
+  useEffect(() => {
+    // The replay carries on with the new settings from here
+    if (!isSameHandling(engine.getSettings(), settings)) {
+      recorderRef.current?.recordSettings(settings, engine.getTime());
     }
-
-    // Update stats
-    const newTotal = score.total + 1;
-    const newCorrect = score.correct + (isCorrect ? 1 : 0);
-    const newCombo = isCorrect ? score.combo + 1 : 0;
-    const newTopCombo = Math.max(score.topCombo, newCombo);
-    const newTotalKeys = score.totalKeys + keyCountRef.current;
-
-    setScore({
-      correct: newCorrect,
-      total: newTotal,
-      combo: newCombo,
-      topCombo: newTopCombo,
-      kpp: newTotalKeys / newTotal,
-      totalKeys: newTotalKeys
+    engine.configure({
+      settings,
+      // In LEARNING mode, use the learning progress system to select target
+      selectLearningTarget: () => learningContext?.selectNextLearningPattern(getPatternSelectionParams?.()) ?? null,
     });
-
-    // Record result in learning progress for LEARNING mode
-    if (gameMode === 'LEARNING' && learningContext && learningTargetRef.current) {
-      learningContext.recordResult(
-        learningTargetRef.current.piece,
-        learningTargetRef.current.column,
-        learningTargetRef.current.rotation,
-        isCorrect
-      );
+  }, [engine, settings, learningContext, getPatternSelectionParams]);
+
+  // Mirror engine state into React state
+  const syncState = useCallback(() => {
+    const s = engine.state;
+    currentPieceRef.current = s.currentPiece;
+    setGrid(s.grid);
+    setCurrentPiece(s.currentPiece);
+    setNextQueue(s.nextQueue);
+    setHoldPiece(s.hold);
+    setCanHold(s.canHold);
+    setGameOver(s.gameOver);
+    setGameMode(s.mode);
+    setSeed(s.seed);
+    setLines(s.lines);
+    setSprint(s.sprint);
+    setMaster(s.master);
+    setTarget(s.target);
+    setScore(s.score);
+    setCurrentMoves(s.moves);
+    setLastResult(s.lastResult);
+  }, [engine]);
+
+  const finishReplay = useCallback(() => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (recorder && recorder.replay.pieces > 0) {
+      // Also runs on unmount after a player switch - the replay stays with
+      // the player who recorded it
+      recorder.playerId.then(playerId => saveReplay(recorder.replay, playerId));
     }
+  }, []);
 
-    // If retry on fault is enabled and finesse was incorrect, reset piece
-    if (settings.retryOnFault && !isCorrect && gameMode !== 'FREE_STACK') {
-      resetPiece(false); // Don't reset combo again, already done above
-      return;
+  const recordReplay = useCallback((input: EngineInput | null, events: EngineEvent[]) => {
+    // A new game or mode ends the current session
+    if (events.some(event => event.type === 'start' || event.type === 'mode')) {
+      finishReplay();
     }
-
-    // Clear current piece immediately to prevent ghost from showing during spawn delay
-    setCurrentPiece(null);
-    currentPieceRef.current = null;
-
-    // In finesse practice modes, reset board and spawn next piece
-    if (gameMode !== 'FREE_STACK') {
-      setGrid(createEmptyGrid());
-      setTimeout(() => spawnPiece(), 50);
-    } else {
-      // In free stack mode, place piece and check for lines
-      const shape = TETROMINO_SHAPES[finalPiece.type][finalPiece.rotation];
-      setGrid(prev => {
-        const newGrid = prev.map(row => [...row]);
-        for (let y = 0; y < shape.length; y++) {
-          for (let x = 0; x < shape[y].length; x++) {
-            if (shape[y][x] && finalPiece.y + y >= 0) {
-              newGrid[finalPiece.y + y][finalPiece.x + x] = finalPiece.type;
-            }
-          }
-        }
-        // Clear lines - check from bottom, re-check same row after clear
-        let y = GRID_HEIGHT - 1;
-        while (y >= 0) {
-          if (newGrid[y].every(cell => cell !== null)) {
-            newGrid.splice(y, 1);
-            newGrid.unshift(Array(GRID_WIDTH).fill(null));
-            // Don't decrement y - check same index again since rows shifted
-          } else {
-            y--;
-          }
-        }
-        return newGrid;
-      });
-      setTimeout(() => spawnPiece(), 50);
+    if (events.some(event => event.type === 'start')) {
+      recorderRef.current = new ReplayRecorder(engine, KEY_BINDINGS_VERSION);
+    } else if (input) {
+      recorderRef.current?.record(input.action, input.isKeyDown, engine.getTime());
     }
-  }, [target, gameMode, score, spawnPiece, settings, resetPiece, learningContext]);
-
-  const hold = useCallback(() => {
-    if (!currentPiece || !canHold || gameOver || gameMode !== 'FREE_STACK') return;
-
-    if (holdPiece === null) {
-      setHoldPiece(currentPiece.type);
-      spawnPiece();
-    } else {
-      const tempType = holdPiece;
-      setHoldPiece(currentPiece.type);
-      spawnPiece(tempType);
+    recorderRef.current?.recordEvents(events);
+    // So does the game ending, once its last input is recorded
+    if (events.some(event => event.type === 'finish' || event.type === 'topOut' || event.type === 'masterEnd')) {
+      finishReplay();
     }
-    setCanHold(false);
-  }, [currentPiece, holdPiece, canHold, gameOver, gameMode, spawnPiece]);
-
-  // Stable movePiece for DAS loop and key handlers - uses refs only, no React state updates
-  const stableMovePiece = useCallback((dx: number, dy: number): boolean => {
-    const piece = currentPieceRef.current;
-    const currentGrid = gridRef.current;
-    if (!piece || gameOverRef.current) return false;
+  }, [engine, finishReplay]);
 
-    // Check collision
-    const shape = TETROMINO_SHAPES[piece.type][piece.rotation];
-    for (let y = 0; y < shape.length; y++) {
-      for (let x = 0; x < shape[y].length; x++) {
-        if (shape[y][x]) {
-          const newX = piece.x + x + dx;
-          const newY = piece.y + y + dy;
-          if (newX < 0 || newX >= GRID_WIDTH || newY >= GRID_HEIGHT) {
-            return false;
-          }
-          if (newY >= 0 && currentGrid[newY][newX]) {
-            return false;
-          }
-        }
+  // Save the session when leaving the page
+  useEffect(() => {
+    window.addEventListener('pagehide', finishReplay);
+    return () => {
+      window.removeEventListener('pagehide', finishReplay);
+      finishReplay();
+    };
+  }, [finishReplay]);
+
+  const runStep = useCallback((input: EngineInput | null, timestamp = performance.now()) => {
+    const events = engine.step(input, timestamp - hiddenTimeRef.current);
+    recordReplay(input, events);
+    for (const event of events) {
+      if (event.type === 'masterEnd') {
+        saveMasterRun(engine.state.mode, event.master, event.pieces).then(setMasterResult);
+      } else if (event.type === 'start') {
+        // The last run's result doesn't carry over to the next one
+        setMasterResult(null);
       }
     }
-
-    // Only update ref - canvas reads from ref directly via RAF
-    currentPieceRef.current = { ...piece, x: piece.x + dx, y: piece.y + dy };
-    return true;
-  }, []);
-
-  // Key press handlers for move tracking
-  const handleLeftPress = useCallback(() => {
-    if (gameOverRef.current || !currentPieceRef.current) return;
-    leftHeldRef.current = true;
-    leftDasRef.current = false;
-    leftDasCounterRef.current = 0;
-    leftArrCounterRef.current = 0;
-    // Clear opposite direction's DAS timing (but not the flag - that's needed for move recording)
-    rightDasStartRef.current = null;
-    stableMovePiece(-1, 0);
-  }, [stableMovePiece]);
-
-  const handleLeftRelease = useCallback(() => {
-    leftHeldRef.current = false;
-    // Clear DAS timing immediately on release to prevent lingering state
-    leftDasStartRef.current = null;
-    if (leftDasRef.current) {
-      moveListRef.current.push('DL');
-    } else {
-      moveListRef.current.push('L');
-    }
-    keyCountRef.current++;
-    leftDasRef.current = false;
-    setCurrentMoves([...moveListRef.current]);
-  }, []);
-
-  const handleRightPress = useCallback(() => {
-    if (gameOverRef.current || !currentPieceRef.current) return;
-    rightHeldRef.current = true;
-    rightDasRef.current = false;
-    rightDasCounterRef.current = 0;
-    rightArrCounterRef.current = 0;
-    // Clear opposite direction's DAS timing (but not the flag - that's needed for move recording)
-    leftDasStartRef.current = null;
-    stableMovePiece(1, 0);
-  }, [stableMovePiece]);
-
-  const handleRightRelease = useCallback(() => {
-    rightHeldRef.current = false;
-    // Clear DAS timing immediately on release to prevent lingering state
-    rightDasStartRef.current = null;
-    if (rightDasRef.current) {
-      moveListRef.current.push('DR');
+    if (input || events.length > 0) {
+      syncState();
     } else {
-      moveListRef.current.push('R');
+      // Frame-only update - ref only, canvas reads it directly via RAF
+      currentPieceRef.current = engine.state.currentPiece;
     }
-    keyCountRef.current++;
-    rightDasRef.current = false;
-    setCurrentMoves([...moveListRef.current]);
-  }, []);
-
-  // Move piece all the way in a direction (for instant ARR) - ref only, no state
-  const movePieceToWall = useCallback((direction: -1 | 1) => {
-    const piece = currentPieceRef.current;
-    if (!piece) return;
-
-    const currentGrid = gridRef.current;
-    let newX = piece.x;
-
-    while (true) {
-      const testX = newX + direction;
-      const shape = TETROMINO_SHAPES[piece.type][piece.rotation];
-      let collision = false;
-
-      for (let y = 0; y < shape.length && !collision; y++) {
-        for (let x = 0; x < shape[y].length && !collision; x++) {
-          if (shape[y][x]) {
-            const gridX = testX + x;
-            const gridY = piece.y + y;
-            if (gridX < 0 || gridX >= GRID_WIDTH || (gridY >= 0 && currentGrid[gridY]?.[gridX])) {
-              collision = true;
-            }
-          }
-        }
-      }
-
-      if (collision) break;
-      newX = testX;
-    }
-
-    // Only update ref - canvas reads from ref directly
-    currentPieceRef.current = { ...piece, x: newX };
-  }, []);
-
-  // Move piece all the way down (for instant SDR) - ref only, no state
-  const softDropToBottom = useCallback(() => {
-    const piece = currentPieceRef.current;
-    if (!piece) return;
-
-    const currentGrid = gridRef.current;
-    let newY = piece.y;
-
-    while (true) {
-      const testY = newY + 1;
-      const shape = TETROMINO_SHAPES[piece.type][piece.rotation];
-      let collision = false;
+  }, [engine, recordReplay, syncState]);
 
-      for (let y = 0; y < shape.length && !collision; y++) {
-        for (let x = 0; x < shape[y].length && !collision; x++) {
-          if (shape[y][x]) {
-            const gridX = piece.x + x;
-            const gridY = testY + y;
-            if (gridY >= GRID_HEIGHT || (gridY >= 0 && currentGrid[gridY]?.[gridX])) {
-              collision = true;
-            }
-          }
-        }
-      }
-
-      if (collision) break;
-      newY = testY;
-    }
-
-    // Only update ref - canvas reads from ref directly
-    currentPieceRef.current = { ...piece, y: newY };
-  }, []);
-
-  // Track if there's an active piece (for dependency without causing re-runs on every move)
-  const hasActivePiece = !!currentPiece;
-
-  // DAS timing refs (in milliseconds for precision)
-  const leftDasStartRef = useRef<number | null>(null);
-  const rightDasStartRef = useRef<number | null>(null);
-  const leftLastArrRef = useRef<number>(0);
-  const rightLastArrRef = useRef<number>(0);
-  const softDropLastRef = useRef<number>(0);
-
-  // DAS update loop using RAF for better timing precision
+  // Engine update loop using RAF for DAS/ARR, soft drop, gravity, lock delay
+  // and spawn timing. Gamepads are polled here too, so their presses land on
+  // the frame they happened and DAS/ARR stays as exact as for keys. Runs while
+  // game over as well, so a gamepad can start the next game.
   useEffect(() => {
-    if (gameOver || !hasActivePiece) return;
-
-    // Settings are in frames, convert to milliseconds (16.67ms per frame at 60fps)
-    const FRAME_MS = 1000 / 60;
-    const DAS_DELAY_MS = settings.DAS * FRAME_MS;
-    const ARR_MS = settings.ARR === -1 ? -1 : settings.ARR * FRAME_MS;
-    const SDR_MS = settings.SDR === -1 ? -1 : settings.SDR * FRAME_MS;
-
     let rafId: number;
     let running = true;
+    const gamepad = new GamepadPoller();
 
     const loop = (timestamp: number) => {
       if (!running) return;
-
-      // Left movement
-      if (leftHeldRef.current) {
-        if (leftDasStartRef.current === null) {
-          leftDasStartRef.current = timestamp;
-        }
-        const elapsed = timestamp - leftDasStartRef.current;
-
-        if (elapsed >= DAS_DELAY_MS) {
-          leftDasRef.current = true;
-          if (ARR_MS === -1) {
-            // Instant ARR - move to wall
-            movePieceToWall(-1);
-          } else if (ARR_MS === 0) {
-            // 0ms ARR - move every frame
-            stableMovePiece(-1, 0);
-          } else {
-            // Timed ARR
-            if (timestamp - leftLastArrRef.current >= ARR_MS) {
-              leftLastArrRef.current = timestamp;
-              stableMovePiece(-1, 0);
-            }
-          }
-        }
-      } else {
-        leftDasStartRef.current = null;
+      for (const { button, pressed } of gamepad.poll()) {
+        gamepadHandlerRef.current?.(button, pressed, timestamp);
       }
-
-      // Right movement
-      if (rightHeldRef.current) {
-        if (rightDasStartRef.current === null) {
-          rightDasStartRef.current = timestamp;
-        }
-        const elapsed = timestamp - rightDasStartRef.current;
-
-        if (elapsed >= DAS_DELAY_MS) {
-          rightDasRef.current = true;
-          if (ARR_MS === -1) {
-            // Instant ARR - move to wall
-            movePieceToWall(1);
-          } else if (ARR_MS === 0) {
-            // 0ms ARR - move every frame
-            stableMovePiece(1, 0);
-          } else {
-            // Timed ARR
-            if (timestamp - rightLastArrRef.current >= ARR_MS) {
-              rightLastArrRef.current = timestamp;
-              stableMovePiece(1, 0);
-            }
-          }
-        }
-      } else {
-        rightDasStartRef.current = null;
-      }
-
-      // Soft drop
-      if (softDropHeldRef.current) {
-        if (SDR_MS === -1) {
-          // Instant - drop to bottom
-          softDropToBottom();
-        } else if (SDR_MS === 0) {
-          // 0ms SDR - move every frame
-          stableMovePiece(0, 1);
-        } else {
-          // Timed SDR
-          if (timestamp - softDropLastRef.current >= SDR_MS) {
-            softDropLastRef.current = timestamp;
-            stableMovePiece(0, 1);
-          }
-        }
-      }
-
+      if (!gameOver) runStep(null, timestamp);
       rafId = requestAnimationFrame(loop);
     };
 
@@ -919,196 +209,82 @@ export function useTetrisGame() {
       running = false;
       cancelAnimationFrame(rafId);
     };
-  }, [gameOver, hasActivePiece, stableMovePiece, movePieceToWall, softDropToBottom, settings]);
+  }, [gameOver, runStep]);
+
+  const setGamepadHandler = useCallback((handler: GamepadHandler | null) => {
+    gamepadHandlerRef.current = handler;
+  }, []);
 
   const startGame = useCallback(() => {
-    setGrid(createEmptyGrid());
-    setHoldPiece(null);
-    setCanHold(true);
-    setScore({ correct: 0, total: 0, combo: 0, topCombo: 0, kpp: 0, totalKeys: 0 });
-    setGameOver(false);
-    bagRef.current = [];
-    nextBagRef.current = [];
-    moveListRef.current = [];
-    spawnPiece();
-  }, [spawnPiece]);
+    runStep({ action: 'RESET', isKeyDown: true });
+  }, [runStep]);
 
   const cycleMode = useCallback(() => {
-    const modes: GameMode[] = ['RANDOM', 'Z_ONLY', 'S_ONLY', 'I_ONLY', 'T_ONLY', 'O_ONLY', 'L_ONLY', 'J_ONLY', 'FREE_STACK', 'LEARNING'];
-    const currentIndex = modes.indexOf(gameMode);
-    const nextMode = modes[(currentIndex + 1) % modes.length];
-    setGameMode(nextMode);
-    // Restart with new mode
-    setGrid(createEmptyGrid());
-    setHoldPiece(null);
-    setScore({ correct: 0, total: 0, combo: 0, topCombo: 0, kpp: 0, totalKeys: 0 });
-    setGameOver(true);
-  }, [gameMode]);
+    runStep({ action: 'CHANGE_MODE', isKeyDown: true });
+  }, [runStep]);
 
   const setMode = useCallback((mode: GameMode) => {
-    setGameMode(mode);
-    // Reset with new mode
-    setGrid(createEmptyGrid());
-    setHoldPiece(null);
-    setScore({ correct: 0, total: 0, combo: 0, topCombo: 0, kpp: 0, totalKeys: 0 });
-    setGameOver(true);
-  }, []);
+    engine.setMode(mode);
+    finishReplay();
+    syncState();
+  }, [engine, finishReplay, syncState]);
 
-  const handleAction = useCallback((action: string, isKeyDown: boolean) => {
-    switch (action) {
-      case 'MOVE_LEFT':
-        if (isKeyDown) handleLeftPress();
-        else handleLeftRelease();
-        break;
-      case 'MOVE_RIGHT':
-        if (isKeyDown) handleRightPress();
-        else handleRightRelease();
-        break;
-      case 'SOFT_DROP':
-        if (isKeyDown) {
-          softDropHeldRef.current = true;
-          softDropCounterRef.current = 0;
-          movePiece(0, 1);
-          moveListRef.current.push('SD');
-          keyCountRef.current++;
-          setCurrentMoves([...moveListRef.current]);
-        } else {
-          softDropHeldRef.current = false;
-        }
-        break;
-      case 'HARD_DROP':
-        if (isKeyDown) {
-          if (gameOver) {
-            startGame();
-          } else {
-            hardDrop();
-          }
-        }
-        break;
-      case 'ROTATE_CW':
-        if (isKeyDown) rotatePiece(1);
-        break;
-      case 'ROTATE_CCW':
-        if (isKeyDown) rotatePiece(-1);
-        break;
-      case 'ROTATE_180':
-        if (isKeyDown) rotate180();
-        break;
-      case 'HOLD':
-        if (isKeyDown) hold();
-        break;
-      case 'RESET':
-        if (isKeyDown) startGame();
-        break;
-      case 'CHANGE_MODE':
-        if (isKeyDown) cycleMode();
-        break;
-    }
-  }, [handleLeftPress, handleLeftRelease, handleRightPress, handleRightRelease, movePiece, hardDrop, rotatePiece, rotate180, hold, gameOver, startGame, cycleMode]);
+  // Reset piece to starting position (for retry on fault)
+  const resetPiece = useCallback((resetCombo = true) => {
+    // Catch the engine up first so replays reset at the same point
+    runStep(null);
+    engine.resetPiece(resetCombo);
+    recorderRef.current?.record('RESET_PIECE', resetCombo, engine.getTime());
+    syncState();
+  }, [engine, runStep, syncState]);
+
+  const handleAction = useCallback((action: string, isKeyDown: boolean, timestamp?: number) => {
+    runStep({ action: action as GameAction, isKeyDown }, timestamp);
+  }, [runStep]);
 
   // Validate if current piece position/rotation/moves would be correct (without dropping)
+  // A rejected drop never locks, so its diagnosis is recorded here
   const validateCurrentPlacement = useCallback((): boolean => {
-    const piece = currentPieceRef.current;
-    const currentGrid = gridRef.current;
-    if (!piece || gameMode === 'FREE_STACK') return true;
-    if (!target) return true;
-
-    // Calculate where piece would land using refs
-    let dropDistance = 0;
-    while (true) {
-      const testY = dropDistance + 1;
-      const shape = TETROMINO_SHAPES[piece.type][piece.rotation];
-      let collision = false;
-
-      for (let py = 0; py < shape.length && !collision; py++) {
-        for (let px = 0; px < shape[py].length && !collision; px++) {
-          if (shape[py][px]) {
-            const newY = piece.y + py + testY;
-            const newX = piece.x + px;
-            if (newY >= GRID_HEIGHT || (newY >= 0 && currentGrid[newY]?.[newX])) {
-              collision = true;
-            }
-          }
-        }
-      }
-
-      if (collision) break;
-      dropDistance++;
+    runStep(null);
+    const verdict = engine.gradeCurrentPlacement();
+    if (!verdict.correct) {
+      engine.recordFault(verdict);
+      recorderRef.current?.record('REJECT_DROP', true, engine.getTime());
+      syncState();
     }
-    const finalPiece = { ...piece, y: piece.y + dropDistance };
-
-    // Calculate actual column (leftmost filled cell)
-    const shape = TETROMINO_SHAPES[finalPiece.type][finalPiece.rotation];
-    let leftmostFilledCol = shape[0].length;
-    for (let y = 0; y < shape.length; y++) {
-      for (let x = 0; x < shape[y].length; x++) {
-        if (shape[y][x] && x < leftmostFilledCol) {
-          leftmostFilledCol = x;
-        }
+    return verdict.correct;
+  }, [engine, runStep, syncState]);
+
+  // Record a LEARNING attempt in learning progress. Called before the drop,
+  // so the keys pressed so far (plus the drop) can be compared to the
+  // shortest optimal sequence.
+  const recordReview = useCallback((correct: boolean, judgment?: ReviewJudgment) => {
+    const s = engine.state;
+    if (s.mode !== 'LEARNING' || !s.learningTarget || !s.target) return;
+
+    const optimal = s.target.moves.map(sequence => sequence.length);
+    learningContextRef.current?.recordResult(
+      s.learningTarget.piece,
+      s.learningTarget.column,
+      s.learningTarget.rotation,
+      {
+        correct,
+        judgment,
+        keyCount: s.keyCount + 1,
+        optimalKeyCount: optimal.length > 0 ? Math.min(...optimal) : undefined,
       }
-    }
-    const actualColumn = finalPiece.x + leftmostFilledCol;
-
-    // Check position and rotation
-    const pieceType = finalPiece.type;
-    const isTwoRotationPiece = pieceType === 'Z' || pieceType === 'S' || pieceType === 'I';
-    const rotationMatches = isTwoRotationPiece
-      ? (finalPiece.rotation % 2) === (target.rotation % 2)
-      : finalPiece.rotation === target.rotation;
-    const positionCorrect = actualColumn === target.column && rotationMatches;
-
-    // Check moves (include DROP in the check since that's what we're about to do)
-    const movesWithDrop: FinesseMove[] = [...moveListRef.current, 'DROP'];
-    let movesCorrect = compareMoves(movesWithDrop, target.moves);
-    if (!movesCorrect && isTwoRotationPiece && rotationMatches) {
-      const pieceIndex = PIECE_MAP[piece.type];
-      const playerRotationMoves = getOptimalMoves(pieceIndex, actualColumn, finalPiece.rotation);
-      movesCorrect = compareMoves(movesWithDrop, playerRotationMoves);
-    }
+    );
+  }, [engine]);
 
-    return positionCorrect && movesCorrect;
-  }, [target, gameMode]);
+  // Engine time, for clocks that run between renders
+  const getTime = useCallback((): number => {
+    return engine.getTime();
+  }, [engine]);
 
   // Get target piece for rendering
   const getTargetPiece = useCallback((): Piece | null => {
-    if (!target || !currentPiece || gameMode === 'FREE_STACK') return null;
-
-    // Calculate proper Y position based on piece shape
-    const shape = TETROMINO_SHAPES[currentPiece.type][target.rotation];
-
-    // Find the lowest row in the shape that has filled cells
-    let lowestFilledRow = 0;
-    for (let y = shape.length - 1; y >= 0; y--) {
-      if (shape[y].some(cell => cell)) {
-        lowestFilledRow = y;
-        break;
-      }
-    }
-
-    // Find the leftmost column in the shape that has filled cells
-    let leftmostFilledCol = shape[0].length;
-    for (let y = 0; y < shape.length; y++) {
-      for (let x = 0; x < shape[y].length; x++) {
-        if (shape[y][x] && x < leftmostFilledCol) {
-          leftmostFilledCol = x;
-        }
-      }
-    }
-
-    // Position so the bottom of the piece sits at the bottom of the grid
-    const yPos = (GRID_HEIGHT - 1) - lowestFilledRow;
-
-    // The target column refers to where the leftmost filled cell should be
-    // So we need to subtract the leftmost filled column offset
-    const xPos = target.column - leftmostFilledCol;
-
-    return {
-      type: currentPiece.type,
-      rotation: target.rotation,
-      x: xPos,
-      y: yPos,
-    };
-  }, [target, currentPiece, gameMode]);
+    return engine.getTargetPiece();
+  }, [engine]);
 
   return {
     grid,
@@ -1120,12 +296,21 @@ export function useTetrisGame() {
     score,
     gameOver,
     gameMode,
+    seed,
+    lines,
+    sprint,
+    master,
+    masterResult,
     target,
     currentMoves,
+    lastResult,
     startGame,
     handleAction,
+    setGamepadHandler,
     getTargetPiece,
+    getTime,
     validateCurrentPlacement,
+    recordReview,
     resetPiece,
     cycleMode,
     setMode,
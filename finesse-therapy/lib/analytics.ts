@@ -0,0 +1,202 @@
+/**
+ * Learning Analytics
+ *
+ * Trends computed from stored learning sessions and cards - accuracy and
+ * attempts over time, mastery growth, accuracy by piece and rotation, and
+ * practice by day. Cards only keep lifetime totals, so anything over time
+ * comes from sessions; per-rotation counts are only on sessions recorded
+ * since they were added.
+ */
+
+import type { TetrominoType } from './types';
+import { CURRICULUM } from './curriculum';
+import {
+  Card,
+  SessionRecord,
+  SessionTally,
+  createRotationId,
+  isCardMastered,
+  parsePatternId,
+} from './scheduler';
+
+// Recent sessions compared against earlier ones for a rotation's trend
+const RECENT_SESSIONS = 5;
+
+export interface TrendPoint {
+  timestamp: number;
+  value: number;
+}
+
+// Sessions oldest first
+function chronological(sessions: SessionRecord[]): SessionRecord[] {
+  return [...sessions].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function tallyAccuracy(tally: SessionTally): number | null {
+  return tally.attempts > 0 ? tally.correct / tally.attempts : null;
+}
+
+function addTally(total: SessionTally, tally: SessionTally): SessionTally {
+  return { attempts: total.attempts + tally.attempts, correct: total.correct + tally.correct };
+}
+
+const EMPTY_TALLY: SessionTally = { attempts: 0, correct: 0 };
+
+export function getAccuracyTrend(sessions: SessionRecord[]): TrendPoint[] {
+  return chronological(sessions).map(session => ({ timestamp: session.timestamp, value: session.accuracy }));
+}
+
+export function getAttemptsTrend(sessions: SessionRecord[]): TrendPoint[] {
+  return chronological(sessions).map(session => ({ timestamp: session.timestamp, value: session.totalAttempts }));
+}
+
+/**
+ * Patterns mastered after each session. Counted back from today's total, so
+ * the curve ends where the cards are now.
+ */
+export function getMasteryGrowth(sessions: SessionRecord[], cards: Record<string, Card>): TrendPoint[] {
+  let mastered = Object.values(cards).filter(isCardMastered).length;
+  const points: TrendPoint[] = [];
+  for (const session of chronological(sessions).reverse()) {
+    points.push({ timestamp: session.timestamp, value: Math.max(mastered, 0) });
+    mastered -= session.newPatternsMastered;
+  }
+  return points.reverse();
+}
+
+// Every rotation of each piece in the curriculum
+const ROTATIONS_BY_PIECE = new Map<TetrominoType, number[]>();
+for (const { patternId } of CURRICULUM) {
+  const { piece, rotation } = parsePatternId(patternId);
+  const rotations = ROTATIONS_BY_PIECE.get(piece) ?? [];
+  if (!rotations.includes(rotation)) {
+    ROTATIONS_BY_PIECE.set(piece, [...rotations, rotation].sort((a, b) => a - b));
+  }
+}
+
+/**
+ * A piece rotation's accuracy from its cards, and how recent sessions
+ * compare with earlier ones
+ */
+export interface RotationStats {
+  rotation: number;
+  accuracy: number | null;     // Lifetime, null before any attempt
+  attempts: number;
+  change: number | null;       // Recent minus earlier accuracy, null without both
+}
+
+export interface PieceStats {
+  piece: TetrominoType;
+  accuracy: number | null;
+  attempts: number;
+  trend: TrendPoint[];         // Accuracy in each session the piece was played
+  rotations: RotationStats[];
+}
+
+function cardTally(cards: Card[]): SessionTally {
+  return cards.reduce(
+    (total, card) => addTally(total, { attempts: card.successCount + card.failCount, correct: card.successCount }),
+    EMPTY_TALLY
+  );
+}
+
+// Accuracy of the last RECENT_SESSIONS tallies minus that of the ones before
+function getChange(tallies: SessionTally[]): number | null {
+  const recent = tallyAccuracy(tallies.slice(-RECENT_SESSIONS).reduce(addTally, EMPTY_TALLY));
+  const earlier = tallyAccuracy(tallies.slice(0, -RECENT_SESSIONS).reduce(addTally, EMPTY_TALLY));
+  return recent !== null && earlier !== null ? recent - earlier : null;
+}
+
+/**
+ * Accuracy of each piece and its rotations
+ */
+export function getPieceStats(
+  pieces: readonly TetrominoType[],
+  sessions: SessionRecord[],
+  cards: Record<string, Card>
+): PieceStats[] {
+  const ordered = chronological(sessions).filter(session => session.rotations);
+  const allCards = Object.values(cards);
+
+  return pieces.map(piece => {
+    const rotationIds = (ROTATIONS_BY_PIECE.get(piece) ?? []).map(rotation => createRotationId(piece, rotation));
+    const pieceCards = allCards.filter(card => parsePatternId(card.patternId).piece === piece);
+    const pieceTally = cardTally(pieceCards);
+
+    const trend: TrendPoint[] = [];
+    for (const session of ordered) {
+      const tally = rotationIds
+        .map(id => session.rotations![id] ?? EMPTY_TALLY)
+        .reduce(addTally, EMPTY_TALLY);
+      const accuracy = tallyAccuracy(tally);
+      if (accuracy !== null) trend.push({ timestamp: session.timestamp, value: accuracy });
+    }
+
+    const rotations = (ROTATIONS_BY_PIECE.get(piece) ?? []).map(rotation => {
+      const id = createRotationId(piece, rotation);
+      const tally = cardTally(pieceCards.filter(card => parsePatternId(card.patternId).rotation === rotation));
+      const sessionTallies = ordered
+        .map(session => session.rotations![id])
+        .filter((sessionTally): sessionTally is SessionTally => !!sessionTally && sessionTally.attempts > 0);
+      return {
+        rotation,
+        accuracy: tallyAccuracy(tally),
+        attempts: tally.attempts,
+        change: getChange(sessionTallies),
+      };
+    });
+
+    return {
+      piece,
+      accuracy: pieceCards.length > 0 ? tallyAccuracy(pieceTally) : null,
+      attempts: pieceTally.attempts,
+      trend,
+      rotations,
+    };
+  });
+}
+
+/**
+ * Local midnight of a timestamp's day
+ */
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+export interface CalendarDay {
+  date: number;                // Local midnight
+  attempts: number;
+}
+
+/**
+ * Attempts on each day of the last `weeks` weeks, as columns of weeks
+ * starting on Sunday. Days after today are left out.
+ */
+export function getPracticeCalendar(sessions: SessionRecord[], weeks: number, now: number): CalendarDay[][] {
+  const attemptsByDay = new Map<number, number>();
+  for (const session of sessions) {
+    const day = startOfDay(session.timestamp);
+    attemptsByDay.set(day, (attemptsByDay.get(day) ?? 0) + session.totalAttempts);
+  }
+
+  const today = startOfDay(now);
+  const firstDay = new Date(today);
+  firstDay.setDate(firstDay.getDate() - firstDay.getDay() - (weeks - 1) * 7);
+
+  const columns: CalendarDay[][] = [];
+  for (let week = 0; week < weeks; week++) {
+    const column: CalendarDay[] = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      // Built from the date rather than adding milliseconds, so DST changes don't drift
+      const date = new Date(firstDay);
+      date.setDate(firstDay.getDate() + week * 7 + weekday);
+      const day = date.getTime();
+      if (day > today) break;
+      column.push({ date: day, attempts: attemptsByDay.get(day) ?? 0 });
+    }
+    columns.push(column);
+  }
+  return columns;
+}
@@ -0,0 +1,282 @@
+/**
+ * Board Physics
+ *
+ * Grid, collision and SRS rotation rules shared by the game engine and the
+ * finesse solver. Everything here is a pure function of the grid and piece.
+ */
+
+import { TetrominoType, TETROMINO_SHAPES } from './types';
+
+export const GRID_WIDTH = 10;
+export const GRID_HEIGHT = 20;
+export const STARTING_COL = 3;
+
+export type Cell = TetrominoType | null;
+export type Grid = Cell[][];
+
+// SRS Wall Kick Data
+// Format: [fromRotation][toRotation] = [[dx, dy], ...]
+// Note: In our grid Y increases downward, so SRS Y offsets are negated
+// For J, L, S, T, Z pieces
+const JLSTZ_KICKS: [number, number][][][] = [
+  // From state 0
+  [
+    [], // 0 -> 0 (no rotation)
+    [[ 0, 0], [-1, 0], [-1,-1], [ 0, 2], [-1, 2]], // 0 -> R (CW)
+    [[ 0, 0]], // 0 -> 2 (180) - simple, just try basic
+    [[ 0, 0], [ 1, 0], [ 1,-1], [ 0, 2], [ 1, 2]], // 0 -> L (CCW)
+  ],
+  // From state R (1)
+  [
+    [[ 0, 0], [ 1, 0], [ 1, 1], [ 0,-2], [ 1,-2]], // R -> 0 (CCW)
+    [], // R -> R (no rotation)
+    [[ 0, 0], [ 1, 0], [ 1, 1], [ 0,-2], [ 1,-2]], // R -> 2 (CW)
+    [[ 0, 0]], // R -> L (180)
+  ],
+  // From state 2
+  [
+    [[ 0, 0]], // 2 -> 0 (180)
+    [[ 0, 0], [-1, 0], [-1,-1], [ 0, 2], [-1, 2]], // 2 -> R (CCW)
+    [], // 2 -> 2 (no rotation)
+    [[ 0, 0], [ 1, 0], [ 1,-1], [ 0, 2], [ 1, 2]], // 2 -> L (CW)
+  ],
+  // From state L (3)
+  [
+    [[ 0, 0], [-1, 0], [-1, 1], [ 0,-2], [-1,-2]], // L -> 0 (CW)
+    [[ 0, 0]], // L -> R (180)
+    [[ 0, 0], [-1, 0], [-1, 1], [ 0,-2], [-1,-2]], // L -> 2 (CCW)
+    [], // L -> L (no rotation)
+  ],
+];
+
+// For I piece - uses different kick table
+const I_KICKS: [number, number][][][] = [
+  // From state 0
+  [
+    [], // 0 -> 0
+    [[ 0, 0], [-2, 0], [ 1, 0], [-2, 1], [ 1,-2]], // 0 -> R (CW)
+    [[ 0, 0]], // 0 -> 2 (180)
+    [[ 0, 0], [-1, 0], [ 2, 0], [-1,-2], [ 2, 1]], // 0 -> L (CCW)
+  ],
+  // From state R (1)
+  [
+    [[ 0, 0], [ 2, 0], [-1, 0], [ 2,-1], [-1, 2]], // R -> 0 (CCW)
+    [], // R -> R
+    [[ 0, 0], [-1, 0], [ 2, 0], [-1,-2], [ 2, 1]], // R -> 2 (CW)
+    [[ 0, 0]], // R -> L (180)
+  ],
+  // From state 2
+  [
+    [[ 0, 0]], // 2 -> 0 (180)
+    [[ 0, 0], [ 1, 0], [-2, 0], [ 1, 2], [-2,-1]], // 2 -> R (CCW)
+    [], // 2 -> 2
+    [[ 0, 0], [ 2, 0], [-1, 0], [ 2,-1], [-1, 2]], // 2 -> L (CW)
+  ],
+  // From state L (3)
+  [
+    [[ 0, 0], [ 1, 0], [-2, 0], [ 1, 2], [-2,-1]], // L -> 0 (CW)
+    [[ 0, 0]], // L -> R (180)
+    [[ 0, 0], [-2, 0], [ 1, 0], [-2, 1], [ 1,-2]], // L -> 2 (CCW)
+    [], // L -> L
+  ],
+];
+
+export interface Piece {
+  type: TetrominoType;
+  rotation: number;
+  x: number;
+  y: number;
+}
+
+export function createEmptyGrid(): Grid {
+  return Array.from({ length: GRID_HEIGHT }, () => Array(GRID_WIDTH).fill(null));
+}
+
+/**
+ * Create a piece at its spawn position
+ */
+export function spawnPosition(type: TetrominoType, column = STARTING_COL): Piece {
+  return {
+    type,
+    rotation: 0,
+    x: column,
+    y: type === 'I' ? -1 : 0,
+  };
+}
+
+/**
+ * Get wall kick table for a piece type
+ */
+export function getKickTable(type: TetrominoType): [number, number][][][] | null {
+  if (type === 'I') return I_KICKS;
+  if (type === 'O') return null; // O doesn't need kicks
+  return JLSTZ_KICKS;
+}
+
+/**
+ * Check whether a piece collides with walls, floor or locked cells
+ */
+export function checkCollision(grid: Grid, piece: Piece, offsetX = 0, offsetY = 0, newRotation?: number): boolean {
+  const rotation = newRotation ?? piece.rotation;
+  const shape = TETROMINO_SHAPES[piece.type][rotation];
+
+  for (let y = 0; y < shape.length; y++) {
+    for (let x = 0; x < shape[y].length; x++) {
+      if (shape[y][x]) {
+        const newX = piece.x + x + offsetX;
+        const newY = piece.y + y + offsetY;
+
+        if (newX < 0 || newX >= GRID_WIDTH || newY >= GRID_HEIGHT) {
+          return true;
+        }
+
+        if (newY >= 0 && grid[newY][newX]) {
+          return true;
+        }
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Try to move a piece, returning the moved piece or null when blocked
+ */
+export function tryMove(grid: Grid, piece: Piece, dx: number, dy: number): Piece | null {
+  if (checkCollision(grid, piece, dx, dy)) return null;
+  return { ...piece, x: piece.x + dx, y: piece.y + dy };
+}
+
+/**
+ * Try to rotate a piece using SRS kicks, returning the rotated piece or null
+ * @param turns - 1 = clockwise, -1 = counter-clockwise, 2 = 180
+ */
+export function tryRotate(grid: Grid, piece: Piece, turns: 1 | -1 | 2): Piece | null {
+  // O piece doesn't rotate meaningfully
+  if (piece.type === 'O') return null;
+
+  const fromRotation = piece.rotation;
+  const toRotation = (fromRotation + turns + 4) % 4;
+  const kickTable = getKickTable(piece.type);
+  const kicks = kickTable ? kickTable[fromRotation][toRotation] : [[0, 0]];
+
+  // Try each kick offset
+  for (const [dx, dy] of kicks) {
+    if (!checkCollision(grid, piece, dx, dy, toRotation)) {
+      return {
+        ...piece,
+        rotation: toRotation,
+        x: piece.x + dx,
+        y: piece.y + dy,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Move a piece as far as possible in a horizontal direction (instant ARR)
+ */
+export function moveToWall(grid: Grid, piece: Piece, direction: -1 | 1): Piece {
+  let x = piece.x;
+  while (!checkCollision(grid, { ...piece, x }, direction, 0)) {
+    x += direction;
+  }
+  return { ...piece, x };
+}
+
+/**
+ * Distance a piece can fall before landing
+ */
+export function getDropDistance(grid: Grid, piece: Piece): number {
+  let distance = 0;
+  while (!checkCollision(grid, piece, 0, distance + 1)) {
+    distance++;
+  }
+  return distance;
+}
+
+/**
+ * Piece moved to its landing position
+ */
+export function dropPiece(grid: Grid, piece: Piece): Piece {
+  return { ...piece, y: piece.y + getDropDistance(grid, piece) };
+}
+
+/**
+ * Column of the piece's leftmost filled cell
+ */
+export function getPieceColumn(piece: Piece): number {
+  const shape = TETROMINO_SHAPES[piece.type][piece.rotation];
+  let leftmostFilledCol = shape[0].length;
+  for (let y = 0; y < shape.length; y++) {
+    for (let x = 0; x < shape[y].length; x++) {
+      if (shape[y][x] && x < leftmostFilledCol) {
+        leftmostFilledCol = x;
+      }
+    }
+  }
+  // The actual column is the bounding box x plus the leftmost filled offset
+  return piece.x + leftmostFilledCol;
+}
+
+/**
+ * Grid coordinates [x, y] of every filled cell of a piece
+ */
+export function getPieceCells(piece: Piece): [number, number][] {
+  const shape = TETROMINO_SHAPES[piece.type][piece.rotation];
+  const cells: [number, number][] = [];
+  for (let y = 0; y < shape.length; y++) {
+    for (let x = 0; x < shape[y].length; x++) {
+      if (shape[y][x]) {
+        cells.push([piece.x + x, piece.y + y]);
+      }
+    }
+  }
+  return cells;
+}
+
+/**
+ * Write a piece into the grid without clearing lines
+ */
+export function placePiece(grid: Grid, piece: Piece): Grid {
+  const shape = TETROMINO_SHAPES[piece.type][piece.rotation];
+  const newGrid = grid.map(row => [...row]);
+  for (let y = 0; y < shape.length; y++) {
+    for (let x = 0; x < shape[y].length; x++) {
+      if (shape[y][x] && piece.y + y >= 0) {
+        newGrid[piece.y + y][piece.x + x] = piece.type;
+      }
+    }
+  }
+  return newGrid;
+}
+
+/**
+ * Remove completed lines, shifting the rows above down
+ */
+export function clearLines(grid: Grid): { grid: Grid; linesCleared: number } {
+  const newGrid = grid.map(row => [...row]);
+
+  // Check from bottom, re-check same row after clear
+  let linesCleared = 0;
+  let y = GRID_HEIGHT - 1;
+  while (y >= 0) {
+    if (newGrid[y].every(cell => cell !== null)) {
+      newGrid.splice(y, 1);
+      newGrid.unshift(Array(GRID_WIDTH).fill(null));
+      linesCleared++;
+      // Don't decrement y - check same index again since rows shifted
+    } else {
+      y--;
+    }
+  }
+  return { grid: newGrid, linesCleared };
+}
+
+/**
+ * Write a piece into the grid and clear completed lines
+ */
+export function lockPiece(grid: Grid, piece: Piece): { grid: Grid; linesCleared: number } {
+  return clearLines(placePiece(grid, piece));
+}
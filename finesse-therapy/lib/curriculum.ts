@@ -0,0 +1,126 @@
+/**
+ * Learning Curriculum
+ *
+ * Orders the finesse patterns from easiest to hardest so new patterns are
+ * introduced a tier at a time: O placements, taps, DAS, rotations, then
+ * rotations combined with movement. Each tier unlocks once most of the
+ * tier before it is mastered.
+ */
+
+import { FINESSE_TARGETS, FinesseMove, PieceIndex, PIECE_TYPES, getOptimalMoves } from './finesse-data';
+import { Card, createPatternId, isCardMastered } from './scheduler';
+
+export type CurriculumTier = 'O' | 'TAP' | 'DAS' | 'ROTATION' | 'COMBINED';
+
+export const CURRICULUM_TIERS: CurriculumTier[] = ['O', 'TAP', 'DAS', 'ROTATION', 'COMBINED'];
+
+// Tier display names
+export const TIER_NAMES: Record<CurriculumTier, string> = {
+  'O': 'O Piece',
+  'TAP': 'Taps',
+  'DAS': 'DAS',
+  'ROTATION': 'Rotations',
+  'COMBINED': 'Combined',
+};
+
+// Share of a tier's patterns that must be mastered to unlock the next tier
+export const TIER_UNLOCK_MASTERY = 0.8;
+
+/**
+ * A pattern's place in the curriculum
+ */
+export interface CurriculumPattern {
+  patternId: string;
+  tier: CurriculumTier;
+  keyCount: number;            // Keys of the shortest optimal sequence, including the drop
+}
+
+const ROTATIONS: FinesseMove[] = ['C', 'CC', '180'];
+
+// Classify one optimal sequence by the inputs it needs
+function getSequenceTier(sequence: FinesseMove[]): CurriculumTier {
+  const inputs = sequence.filter(move => move !== 'DROP');
+  const rotates = inputs.some(move => ROTATIONS.includes(move));
+  const moves = inputs.some(move => !ROTATIONS.includes(move));
+  if (rotates) return moves ? 'COMBINED' : 'ROTATION';
+  return inputs.some(move => move === 'DL' || move === 'DR') ? 'DAS' : 'TAP';
+}
+
+/**
+ * Build the curriculum from the solver's optimal moves - patterns ordered by
+ * tier, then by how many keys they take. A pattern with several optimal
+ * sequences goes in the tier of its easiest one.
+ */
+function buildCurriculum(): CurriculumPattern[] {
+  const patterns: CurriculumPattern[] = [];
+
+  for (const pieceIndexStr of Object.keys(FINESSE_TARGETS)) {
+    const pieceIndex = parseInt(pieceIndexStr, 10) as PieceIndex;
+    const pieceType = PIECE_TYPES[pieceIndex];
+    const rotations = FINESSE_TARGETS[pieceIndex];
+
+    for (let rotIndex = 0; rotIndex < rotations.length; rotIndex++) {
+      const positions = rotations[rotIndex];
+      for (let colIndex = 0; colIndex < positions.length; colIndex++) {
+        const [column, rotation] = positions[colIndex];
+        const sequences = getOptimalMoves(pieceIndex, colIndex, rotIndex);
+        const tier = pieceType === 'O'
+          ? 'O'
+          : CURRICULUM_TIERS[Math.min(...sequences.map(seq => CURRICULUM_TIERS.indexOf(getSequenceTier(seq))))];
+
+        patterns.push({
+          patternId: createPatternId(pieceType, column, rotation),
+          tier,
+          keyCount: Math.min(...sequences.map(seq => seq.length)),
+        });
+      }
+    }
+  }
+
+  // Stable sort keeps the piece order within a tier and key count
+  return patterns.sort((a, b) =>
+    CURRICULUM_TIERS.indexOf(a.tier) - CURRICULUM_TIERS.indexOf(b.tier) || a.keyCount - b.keyCount
+  );
+}
+
+// Every pattern, easiest first
+export const CURRICULUM = buildCurriculum();
+
+/**
+ * Mastery of each tier
+ */
+export function getTierProgress(cards: Record<string, Card>): {
+  tier: CurriculumTier;
+  mastered: number;
+  total: number;
+}[] {
+  return CURRICULUM_TIERS.map(tier => {
+    const patterns = CURRICULUM.filter(pattern => pattern.tier === tier);
+    const mastered = patterns.filter(pattern => {
+      const card = cards[pattern.patternId];
+      return card ? isCardMastered(card) : false;
+    }).length;
+    return { tier, mastered, total: patterns.length };
+  });
+}
+
+/**
+ * Get the tier currently being learned - the first one that isn't mastered
+ * enough to unlock the next
+ */
+export function getCurrentTier(cards: Record<string, Card>): CurriculumTier {
+  const current = getTierProgress(cards).find(({ mastered, total }) =>
+    mastered < total * TIER_UNLOCK_MASTERY
+  );
+  return current?.tier ?? CURRICULUM_TIERS[CURRICULUM_TIERS.length - 1];
+}
+
+/**
+ * Get the patterns of every unlocked tier, easiest first
+ */
+export function getUnlockedPatternIds(cards: Record<string, Card>): string[] {
+  const lastTier = CURRICULUM_TIERS.indexOf(getCurrentTier(cards));
+  return CURRICULUM
+    .filter(pattern => CURRICULUM_TIERS.indexOf(pattern.tier) <= lastTier)
+    .map(pattern => pattern.patternId);
+}
@@ -1,5 +1,8 @@
+import type { TetrominoType } from './types';
+import { SolverOptions, solveFinesse } from './finesse-solver';
+
 // Finesse move types
-export type FinesseMove = 'L' | 'R' | 'DL' | 'DR' | 'C' | 'CC' | 'DROP' | 'SD';
+export type FinesseMove = 'L' | 'R' | 'DL' | 'DR' | 'C' | 'CC' | '180' | 'DROP' | 'SD';
 
 // Move display names
 export const MOVE_NAMES: Record<FinesseMove, string> = {
@@ -9,6 +12,7 @@ export const MOVE_NAMES: Record<FinesseMove, string> = {
   'DR': 'DAS RIGHT',
   'C': 'CLOCKWISE',
   'CC': 'COUNTER-CW',
+  '180': '180',
   'DROP': 'HARD DROP',
   'SD': 'SOFT DROP',
 };
@@ -16,6 +20,13 @@ export const MOVE_NAMES: Record<FinesseMove, string> = {
 // Piece indices: Z=0, S=1, I=2, T=3, O=4, L=5, J=6
 export type PieceIndex = 0 | 1 | 2 | 3 | 4 | 5 | 6;
 
+export const PIECE_TYPES: Record<PieceIndex, TetrominoType> = {
+  0: 'Z', 1: 'S', 2: 'I', 3: 'T', 4: 'O', 5: 'L', 6: 'J',
+};
+
+// Solver options that affect finesse answers (the board is always empty here)
+export type FinesseOptions = Omit<SolverOptions, 'grid'>;
+
 // Target positions: [column, rotation, row] for each piece and orientation
 // Column is 0-9 (left to right), rotation is 0-3
 export const FINESSE_TARGETS: Record<PieceIndex, [number, number][][]> = {
@@ -63,269 +74,57 @@ export const FINESSE_TARGETS: Record<PieceIndex, [number, number][][]> = {
   ],
 };
 
-// Optimal finesse moves for each piece, column index, and rotation
-// Format: MOVES[pieceIndex][columnIndex][rotationIndex] = FinesseMove[][]
-// Multiple arrays means multiple valid sequences (OR)
-export const FINESSE_MOVES: Record<PieceIndex, FinesseMove[][][][]> = {
-  // Z-mino
-  0: [
-    // horizontal positions (8 columns)
-    [
-      [['DL', 'DROP']],
-      [['L', 'L', 'DROP'], ['DL', 'R', 'DROP']],
-      [['L', 'DROP']],
-      [['DROP']],
-      [['R', 'DROP']],
-      [['R', 'R', 'DROP']],
-      [['DR', 'L', 'DROP']],
-      [['DR', 'DROP']],
-    ],
-    // vertical positions (9 columns)
-    [
-      [['CC', 'DL', 'DROP']],
-      [['DL', 'C', 'DROP']],
-      [['CC', 'L', 'DROP']],
-      [['CC', 'DROP']],
-      [['C', 'DROP']],
-      [['C', 'R', 'DROP']],
-      [['C', 'R', 'R', 'DROP'], ['DR', 'L', 'CC', 'DROP']],
-      [['DR', 'CC', 'DROP']],
-      [['C', 'DR', 'DROP']],
-    ],
-  ],
-  // S-mino
-  1: [
-    [
-      [['DL', 'DROP']],
-      [['L', 'L', 'DROP'], ['DL', 'R', 'DROP']],
-      [['L', 'DROP']],
-      [['DROP']],
-      [['R', 'DROP']],
-      [['R', 'R', 'DROP']],
-      [['DR', 'L', 'DROP']],
-      [['DR', 'DROP']],
-    ],
-    [
-      [['CC', 'DL', 'DROP']],
-      [['DL', 'C', 'DROP']],
-      [['CC', 'L', 'DROP']],
-      [['CC', 'DROP']],
-      [['C', 'DROP']],
-      [['C', 'R', 'DROP']],
-      [['C', 'R', 'R', 'DROP'], ['DR', 'L', 'CC', 'DROP']],
-      [['DR', 'CC', 'DROP']],
-      [['C', 'DR', 'DROP']],
-    ],
-  ],
-  // I-mino
-  2: [
-    [
-      [['DL', 'DROP']],
-      [['L', 'L', 'DROP'], ['DL', 'R', 'DROP']],
-      [['L', 'DROP']],
-      [['DROP']],
-      [['R', 'DROP']],
-      [['R', 'R', 'DROP'], ['DR', 'L', 'DROP']],
-      [['DR', 'DROP']],
-    ],
-    [
-      [['CC', 'DL', 'DROP']],
-      [['DL', 'CC', 'DROP']],
-      [['DL', 'C', 'DROP']],
-      [['L', 'CC', 'DROP']],
-      [['CC', 'DROP']],
-      [['C', 'DROP']],
-      [['R', 'C', 'DROP']],
-      [['DR', 'CC', 'DROP']],
-      [['DR', 'C', 'DROP']],
-      [['C', 'DR', 'DROP']],
-    ],
-  ],
-  // T-mino
-  3: [
-    // flat down
-    [
-      [['DL', 'DROP']],
-      [['L', 'L', 'DROP'], ['DL', 'R', 'DROP']],
-      [['L', 'DROP']],
-      [['DROP']],
-      [['R', 'DROP']],
-      [['R', 'R', 'DROP']],
-      [['DR', 'L', 'DROP']],
-      [['DR', 'DROP']],
-    ],
-    // flat left
-    [
-      [['C', 'DL', 'DROP']],
-      [['DL', 'C', 'DROP']],
-      [['C', 'L', 'L', 'DROP'], ['DL', 'R', 'C', 'DROP']],
-      [['C', 'L', 'DROP']],
-      [['C', 'DROP']],
-      [['C', 'R', 'DROP']],
-      [['C', 'R', 'R', 'DROP']],
-      [['C', 'DR', 'L', 'DROP']],
-      [['DR', 'C', 'DROP']],
-    ],
-    // flat top
-    [
-      [['DL', 'C', 'C', 'DROP'], ['DL', 'CC', 'CC', 'DROP']],
-      [['L', 'L', 'C', 'C', 'DROP'], ['DL', 'R', 'C', 'C', 'DROP']],
-      [['L', 'C', 'C', 'DROP'], ['L', 'CC', 'CC', 'DROP']],
-      [['C', 'C', 'DROP'], ['CC', 'CC', 'DROP']],
-      [['R', 'C', 'C', 'DROP'], ['R', 'CC', 'CC', 'DROP']],
-      [['R', 'R', 'C', 'C', 'DROP'], ['R', 'R', 'CC', 'CC', 'DROP']],
-      [['DR', 'L', 'C', 'C', 'DROP'], ['DR', 'L', 'CC', 'CC', 'DROP']],
-      [['DR', 'C', 'C', 'DROP'], ['DR', 'CC', 'CC', 'DROP']],
-    ],
-    // flat right
-    [
-      [['CC', 'DL', 'DROP']],
-      [['CC', 'L', 'L', 'DROP'], ['DL', 'R', 'CC', 'DROP']],
-      [['CC', 'L', 'DROP']],
-      [['CC', 'DROP']],
-      [['CC', 'R', 'DROP']],
-      [['CC', 'R', 'R', 'DROP']],
-      [['DR', 'L', 'CC', 'DROP']],
-      [['DR', 'CC', 'DROP']],
-      [['CC', 'DR', 'DROP']],
-    ],
-  ],
-  // O-mino
-  4: [
-    [
-      [['DL', 'DROP']],
-      [['DL', 'R', 'DROP']],
-      [['L', 'L', 'DROP']],
-      [['L', 'DROP']],
-      [['DROP']],
-      [['R', 'DROP']],
-      [['R', 'R', 'DROP']],
-      [['DR', 'L', 'DROP']],
-      [['DR', 'DROP']],
-    ],
-  ],
-  // L-mino
-  5: [
-    [
-      [['DL', 'DROP']],
-      [['L', 'L', 'DROP'], ['DL', 'R', 'DROP']],
-      [['L', 'DROP']],
-      [['DROP']],
-      [['R', 'DROP']],
-      [['R', 'R', 'DROP']],
-      [['DR', 'L', 'DROP']],
-      [['DR', 'DROP']],
-    ],
-    [
-      [['C', 'DL', 'DROP']],
-      [['DL', 'C', 'DROP']],
-      [['C', 'L', 'L', 'DROP'], ['DL', 'R', 'C', 'DROP']],
-      [['C', 'L', 'DROP']],
-      [['C', 'DROP']],
-      [['C', 'R', 'DROP']],
-      [['C', 'R', 'R', 'DROP']],
-      [['C', 'DR', 'L', 'DROP']],
-      [['DR', 'C', 'DROP']],
-    ],
-    [
-      [['DL', 'C', 'C', 'DROP'], ['DL', 'CC', 'CC', 'DROP']],
-      [['L', 'L', 'C', 'C', 'DROP'], ['DL', 'R', 'C', 'C', 'DROP']],
-      [['L', 'C', 'C', 'DROP'], ['L', 'CC', 'CC', 'DROP']],
-      [['C', 'C', 'DROP'], ['CC', 'CC', 'DROP']],
-      [['R', 'C', 'C', 'DROP'], ['R', 'CC', 'CC', 'DROP']],
-      [['R', 'R', 'C', 'C', 'DROP'], ['R', 'R', 'CC', 'CC', 'DROP']],
-      [['DR', 'L', 'C', 'C', 'DROP'], ['DR', 'L', 'CC', 'CC', 'DROP']],
-      [['DR', 'C', 'C', 'DROP'], ['DR', 'CC', 'CC', 'DROP']],
-    ],
-    [
-      [['CC', 'DL', 'DROP']],
-      [['CC', 'L', 'L', 'DROP'], ['DL', 'R', 'CC', 'DROP']],
-      [['CC', 'L', 'DROP']],
-      [['CC', 'DROP']],
-      [['CC', 'R', 'DROP']],
-      [['CC', 'R', 'R', 'DROP']],
-      [['DR', 'L', 'CC', 'DROP']],
-      [['DR', 'CC', 'DROP']],
-      [['CC', 'DR', 'DROP']],
-    ],
-  ],
-  // J-mino
-  6: [
-    [
-      [['DL', 'DROP']],
-      [['L', 'L', 'DROP'], ['DL', 'R', 'DROP']],
-      [['L', 'DROP']],
-      [['DROP']],
-      [['R', 'DROP']],
-      [['R', 'R', 'DROP']],
-      [['DR', 'L', 'DROP']],
-      [['DR', 'DROP']],
-    ],
-    [
-      [['C', 'DL', 'DROP']],
-      [['DL', 'C', 'DROP']],
-      [['C', 'L', 'L', 'DROP'], ['DL', 'R', 'C', 'DROP']],
-      [['C', 'L', 'DROP']],
-      [['C', 'DROP']],
-      [['C', 'R', 'DROP']],
-      [['C', 'R', 'R', 'DROP']],
-      [['C', 'DR', 'L', 'DROP']],
-      [['DR', 'C', 'DROP']],
-    ],
-    [
-      [['DL', 'C', 'C', 'DROP'], ['DL', 'CC', 'CC', 'DROP']],
-      [['L', 'L', 'C', 'C', 'DROP'], ['DL', 'R', 'C', 'C', 'DROP']],
-      [['L', 'C', 'C', 'DROP'], ['L', 'CC', 'CC', 'DROP']],
-      [['C', 'C', 'DROP'], ['CC', 'CC', 'DROP']],
-      [['R', 'C', 'C', 'DROP'], ['R', 'CC', 'CC', 'DROP']],
-      [['R', 'R', 'C', 'C', 'DROP'], ['R', 'R', 'CC', 'CC', 'DROP']],
-      [['DR', 'L', 'C', 'C', 'DROP'], ['DR', 'L', 'CC', 'CC', 'DROP']],
-      [['DR', 'C', 'C', 'DROP'], ['DR', 'CC', 'CC', 'DROP']],
-    ],
-    [
-      [['CC', 'DL', 'DROP']],
-      [['CC', 'L', 'L', 'DROP'], ['DL', 'R', 'CC', 'DROP']],
-      [['CC', 'L', 'DROP']],
-      [['CC', 'DROP']],
-      [['CC', 'R', 'DROP']],
-      [['CC', 'R', 'R', 'DROP']],
-      [['DR', 'L', 'CC', 'DROP']],
-      [['DR', 'CC', 'DROP']],
-      [['CC', 'DR', 'DROP']],
-    ],
-  ],
-};
+export interface CompareOptions {
+  allow180?: boolean;       // Grade with 180 finesse (180 is one key, not C, C)
+  allowSoftDrop?: boolean;  // Accept any sequence with a soft drop (default true)
+}
+
+export interface PrefixOptions extends CompareOptions {
+  strict?: boolean;         // Only the canonical ordering counts
+}
+
+// Without 180 finesse, the 180 key counts as two clockwise rotations
+export function normalize180(moves: FinesseMove[], allow180 = false): FinesseMove[] {
+  if (allow180) return moves;
+  return moves.flatMap(move => (move === '180' ? ['C', 'C'] as FinesseMove[] : [move]));
+}
 
-// Normalize moves - convert C,C to 180 for comparison if needed
-function normalizeMoves(moves: FinesseMove[]): FinesseMove[] {
+// Normalize moves for prefix checking - drop DROP/SD and apply the 180 setting
+function normalizeMoves(moves: FinesseMove[], allow180 = false): FinesseMove[] {
   const result: FinesseMove[] = [];
-  for (let i = 0; i < moves.length; i++) {
+  for (const move of normalize180(moves, allow180)) {
     // Skip DROP and SD for prefix checking
-    if (moves[i] === 'DROP' || moves[i] === 'SD') continue;
-    result.push(moves[i]);
+    if (move === 'DROP' || move === 'SD') continue;
+    result.push(move);
   }
   return result;
 }
 
 // Check if player moves are a valid prefix of any target sequence
 // Used for retry-on-fault feature
-export function isValidMovePrefix(playerMoves: FinesseMove[], targetMoves: FinesseMove[][]): boolean {
+export function isValidMovePrefix(
+  playerMoves: FinesseMove[],
+  targetMoves: FinesseMove[][],
+  options: PrefixOptions = {}
+): boolean {
   if (!targetMoves || targetMoves.length === 0) return true;
   if (!playerMoves || playerMoves.length === 0) return true;
 
   // Normalize player moves (remove DROP/SD)
-  const normalizedPlayer = normalizeMoves(playerMoves);
+  const normalizedPlayer = normalizeMoves(playerMoves, options.allow180);
   if (normalizedPlayer.length === 0) return true;
 
+  // Strict grading expects one ordering per set of inputs
+  const sequences = options.strict ? getCanonicalMoves(targetMoves) : targetMoves;
+
   // Check if player moves are a prefix of any valid sequence
-  for (const validSequence of targetMoves) {
-    const normalizedValid = normalizeMoves(validSequence);
+  for (const validSequence of sequences) {
+    const normalizedValid = normalizeMoves(validSequence, options.allow180);
 
     // Check if player moves match the start of this sequence
     if (normalizedPlayer.length <= normalizedValid.length) {
       let isPrefix = true;
       for (let i = 0; i < normalizedPlayer.length; i++) {
-        // Allow C,C as equivalent to 180 rotation target (if exists)
         if (normalizedPlayer[i] !== normalizedValid[i]) {
           isPrefix = false;
           break;
@@ -334,6 +133,8 @@ export function isValidMovePrefix(playerMoves: FinesseMove[], targetMoves: Fines
       if (isPrefix) return true;
     }
 
+    if (options.strict) continue;
+
     // Also check sorted (order-independent for some moves)
     const sortedPlayer = [...normalizedPlayer].sort();
     const sortedValidPrefix = [...normalizedValid].slice(0, normalizedPlayer.length).sort();
@@ -346,9 +147,37 @@ export function isValidMovePrefix(playerMoves: FinesseMove[], targetMoves: Fines
   return false;
 }
 
+// Number of runs of repeated inputs - C, C, DL is two runs
+function countRuns(moves: FinesseMove[]): number {
+  return moves.filter((move, i) => i === 0 || move !== moves[i - 1]).length;
+}
+
+// The solver lists every ordering of the same inputs - keep one per set,
+// preferring the ordering that keeps repeated inputs together. This is the
+// ordering hints show and strict grading expects
+export function getCanonicalMoves(targetMoves: FinesseMove[][]): FinesseMove[][] {
+  const canonical = new Map<string, FinesseMove[]>();
+  for (const sequence of targetMoves) {
+    const key = [...sequence].sort().join(',');
+    const existing = canonical.get(key);
+    if (!existing || countRuns(sequence) < countRuns(existing)) {
+      canonical.set(key, sequence);
+    }
+  }
+  return [...canonical.values()];
+}
+
 // Compare player moves to target moves
-export function compareMoves(playerMoves: FinesseMove[], targetMoves: FinesseMove[][]): boolean {
+// allowSoftDrop accepts any sequence with a soft drop - targets solved on an
+// empty board never need one, so the soft drop can't be graded against them
+export function compareMoves(
+  playerMoves: FinesseMove[],
+  targetMoves: FinesseMove[][],
+  options: CompareOptions = {}
+): boolean {
   if (!playerMoves || !targetMoves || targetMoves.length === 0) return false;
+  const { allow180 = false, allowSoftDrop = true } = options;
+  playerMoves = normalize180(playerMoves, allow180);
 
   // If player used fewer moves than optimal, count as correct (DAS preservation)
   if (playerMoves.length < targetMoves[0].length) {
@@ -356,7 +185,7 @@ export function compareMoves(playerMoves: FinesseMove[], targetMoves: FinesseMov
   }
 
   // If player used soft drop, count as correct
-  if (playerMoves.includes('SD')) {
+  if (allowSoftDrop && playerMoves.includes('SD')) {
     return true;
   }
 
@@ -374,41 +203,60 @@ export function compareMoves(playerMoves: FinesseMove[], targetMoves: FinesseMov
   return false;
 }
 
+// Map a rotation to its index in FINESSE_TARGETS
+function getRotationArrayIndex(pieceIndex: PieceIndex, rotationIndex: number): number {
+  // Z, S, I only have 2 orientations (0=horizontal, 1=vertical)
+  // For these pieces, rotation 0/2 map to index 0, rotation 1/3 map to index 1
+  const orientations = FINESSE_TARGETS[pieceIndex].length;
+  if (orientations === 1) {
+    // O piece - only one orientation
+    return 0;
+  } else if (orientations === 2) {
+    // Z, S, I pieces - two orientations
+    return rotationIndex % 2;
+  }
+  return rotationIndex;
+}
+
+// Solved answers for the empty board, keyed by piece/rotation/column/options
+const optimalMovesCache = new Map<string, FinesseMove[][]>();
+
 // Get optimal moves for a piece at a specific position
 export function getOptimalMoves(
   pieceIndex: PieceIndex,
   columnIndex: number,
-  rotationIndex: number
+  rotationIndex: number,
+  options: FinesseOptions = {}
 ): FinesseMove[][] {
-  const pieceData = FINESSE_MOVES[pieceIndex];
-  if (!pieceData) return [];
+  const targets = FINESSE_TARGETS[pieceIndex];
+  if (!targets) return [];
 
-  // Map rotation to array index based on piece type
-  // Z, S, I only have 2 orientations (0=horizontal, 1=vertical)
-  // For these pieces, rotation 0/2 map to index 0, rotation 1/3 map to index 1
-  let arrayIndex = rotationIndex;
-  if (pieceData.length === 1) {
-    // O piece - only one orientation
-    arrayIndex = 0;
-  } else if (pieceData.length === 2) {
-    // Z, S, I pieces - two orientations
-    arrayIndex = rotationIndex % 2;
-  }
+  const position = targets[getRotationArrayIndex(pieceIndex, rotationIndex)]?.[columnIndex];
+  if (!position) return [];
+  const [column, rotation] = position;
 
-  if (!pieceData[arrayIndex]) return [];
-  const columnData = pieceData[arrayIndex][columnIndex];
-  return columnData || [];
+  const key = [pieceIndex, rotation, column, options.spawnColumn ?? '', options.allow180 ? 1 : 0].join(':');
+  let moves = optimalMovesCache.get(key);
+  if (!moves) {
+    moves = solveFinesse(PIECE_TYPES[pieceIndex], column, rotation, options);
+    optimalMovesCache.set(key, moves);
+  }
+  return moves;
 }
 
 // Generate a random target for a piece
-export function generateTarget(pieceIndex: PieceIndex): { column: number; rotation: number; moves: FinesseMove[][] } {
+export function generateTarget(
+  pieceIndex: PieceIndex,
+  options: FinesseOptions = {},
+  random: () => number = Math.random
+): { column: number; rotation: number; moves: FinesseMove[][] } {
   const targets = FINESSE_TARGETS[pieceIndex];
-  const rotationIndex = Math.floor(Math.random() * targets.length);
+  const rotationIndex = Math.floor(random() * targets.length);
   const positions = targets[rotationIndex];
-  const posIndex = Math.floor(Math.random() * positions.length);
+  const posIndex = Math.floor(random() * positions.length);
   const [column, rotation] = positions[posIndex];
 
-  const moves = getOptimalMoves(pieceIndex, posIndex, rotationIndex);
+  const moves = getOptimalMoves(pieceIndex, posIndex, rotationIndex, options);
 
   return { column, rotation, moves };
 }
@@ -0,0 +1,186 @@
+/**
+ * Finesse Grader
+ *
+ * Grades a player's inputs against the optimal sequences and, on a fault,
+ * diagnoses what went wrong and at which input. The player's inputs are
+ * aligned to the closest optimal sequence (edit distance with adjacent
+ * swaps) and the first difference decides the fault. Strict grading only
+ * accepts the canonical ordering of each set of inputs, so inputs pressed
+ * in another order are diagnosed as out of order.
+ */
+
+import { FinesseMove, CompareOptions, compareMoves, getCanonicalMoves, normalize180 } from './finesse-data';
+
+export type FinesseFault =
+  | 'EXTRA_TAP'
+  | 'MISSED_DAS'
+  | 'WRONG_ROTATION'
+  | 'UNNECESSARY_ROTATION'
+  | 'ORDER_SWAP'
+  | 'UNNECESSARY_SOFT_DROP'
+  | 'MISSED_INPUT'
+  | 'WRONG_PLACEMENT';
+
+// Fault display names
+export const FAULT_NAMES: Record<FinesseFault, string> = {
+  'EXTRA_TAP': 'Extra tap',
+  'MISSED_DAS': 'Missed DAS',
+  'WRONG_ROTATION': 'Wrong rotation direction',
+  'UNNECESSARY_ROTATION': 'Unnecessary rotation',
+  'ORDER_SWAP': 'Inputs out of order',
+  'UNNECESSARY_SOFT_DROP': 'Unnecessary soft drop',
+  'MISSED_INPUT': 'Missing input',
+  'WRONG_PLACEMENT': 'Wrong placement',
+};
+
+export interface FinesseVerdict {
+  correct: boolean;
+  fault: FinesseFault | null;
+  inputIndex: number | null;        // Index in the player's moves of the input that went wrong
+  expected: FinesseMove[] | null;   // Closest optimal sequence
+}
+
+export interface GradeOptions extends CompareOptions {
+  strict?: boolean;   // Canonical ordered match only - no soft drop or short-sequence leniency
+}
+
+export const CORRECT_VERDICT: FinesseVerdict = {
+  correct: true,
+  fault: null,
+  inputIndex: null,
+  expected: null,
+};
+
+const ROTATIONS: FinesseMove[] = ['C', 'CC', '180'];
+const DAS_FOR_TAP: Partial<Record<FinesseMove, FinesseMove>> = { 'L': 'DL', 'R': 'DR' };
+
+type AlignmentOp =
+  | { type: 'match' | 'swap' | 'extra'; index: number; move: FinesseMove }
+  | { type: 'substitute'; index: number; move: FinesseMove; expected: FinesseMove }
+  | { type: 'missing'; index: number; expected: FinesseMove };
+
+/**
+ * Optimal string alignment distance table between player and target moves
+ */
+function distanceTable(player: FinesseMove[], target: FinesseMove[]): number[][] {
+  const d = Array.from({ length: player.length + 1 }, () => Array(target.length + 1).fill(0));
+  for (let i = 0; i <= player.length; i++) d[i][0] = i;
+  for (let j = 0; j <= target.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= player.length; i++) {
+    for (let j = 1; j <= target.length; j++) {
+      const cost = player[i - 1] === target[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && player[i - 1] === target[j - 2] && player[i - 2] === target[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d;
+}
+
+/**
+ * Walk the distance table back into edit operations, in player input order
+ */
+function align(player: FinesseMove[], target: FinesseMove[], d: number[][]): AlignmentOp[] {
+  const ops: AlignmentOp[] = [];
+  let i = player.length;
+  let j = target.length;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && player[i - 1] === target[j - 1] && d[i][j] === d[i - 1][j - 1]) {
+      ops.push({ type: 'match', index: i - 1, move: player[i - 1] });
+      i--; j--;
+    } else if (
+      i > 1 && j > 1 &&
+      player[i - 1] === target[j - 2] && player[i - 2] === target[j - 1] &&
+      d[i][j] === d[i - 2][j - 2] + 1
+    ) {
+      ops.push({ type: 'swap', index: i - 2, move: player[i - 2] });
+      i -= 2; j -= 2;
+    } else if (i > 0 && j > 0 && d[i][j] === d[i - 1][j - 1] + 1) {
+      ops.push({ type: 'substitute', index: i - 1, move: player[i - 1], expected: target[j - 1] });
+      i--; j--;
+    } else if (i > 0 && d[i][j] === d[i - 1][j] + 1) {
+      ops.push({ type: 'extra', index: i - 1, move: player[i - 1] });
+      i--;
+    } else {
+      ops.push({ type: 'missing', index: i, expected: target[j - 1] });
+      j--;
+    }
+  }
+  return ops.reverse();
+}
+
+function classify(op: AlignmentOp, player: FinesseMove[], target: FinesseMove[]): FinesseFault {
+  switch (op.type) {
+    case 'swap':
+      return 'ORDER_SWAP';
+    case 'extra': {
+      if (ROTATIONS.includes(op.move)) return 'UNNECESSARY_ROTATION';
+      if (op.move === 'SD') return 'UNNECESSARY_SOFT_DROP';
+      // Tapping toward a wall the optimal sequence DASes to
+      const das = DAS_FOR_TAP[op.move];
+      if (das && target.includes(das) && !player.includes(das)) return 'MISSED_DAS';
+      return 'EXTRA_TAP';
+    }
+    case 'substitute':
+      if (ROTATIONS.includes(op.move) && ROTATIONS.includes(op.expected)) return 'WRONG_ROTATION';
+      if (DAS_FOR_TAP[op.move] === op.expected) return 'MISSED_DAS';
+      if (ROTATIONS.includes(op.move)) return 'UNNECESSARY_ROTATION';
+      if (ROTATIONS.includes(op.expected)) return 'MISSED_INPUT';
+      return 'EXTRA_TAP';
+    case 'missing':
+      return op.expected === 'DL' || op.expected === 'DR' ? 'MISSED_DAS' : 'MISSED_INPUT';
+    default:
+      return 'MISSED_INPUT';
+  }
+}
+
+/**
+ * Grade player moves against the optimal sequences for a placement
+ */
+export function gradeMoves(
+  playerMoves: FinesseMove[],
+  targetMoves: FinesseMove[][],
+  options: GradeOptions = {}
+): FinesseVerdict {
+  const { allow180 = false, strict = false } = options;
+  if (!targetMoves || targetMoves.length === 0) {
+    return { correct: false, fault: null, inputIndex: null, expected: null };
+  }
+
+  if (!strict && compareMoves(playerMoves, targetMoves, options)) {
+    return CORRECT_VERDICT;
+  }
+
+  // Grade the moves as they count, remembering which keypress each came from
+  const player: FinesseMove[] = [];
+  const sourceIndex: number[] = [];
+  playerMoves.forEach((move, index) => {
+    for (const normalized of normalize180([move], allow180)) {
+      player.push(normalized);
+      sourceIndex.push(index);
+    }
+  });
+
+  let best: { target: FinesseMove[]; table: number[][] } | null = null;
+  for (const target of strict ? getCanonicalMoves(targetMoves) : targetMoves) {
+    const table = distanceTable(player, target);
+    if (table[player.length][target.length] === 0) return CORRECT_VERDICT;
+    if (!best || table[player.length][target.length] < best.table[player.length][best.target.length]) {
+      best = { target, table };
+    }
+  }
+
+  const { target, table } = best!;
+  const op = align(player, target, table).find(op => op.type !== 'match')!;
+  const index = Math.min(op.index, player.length - 1);
+
+  return {
+    correct: false,
+    fault: classify(op, player, target),
+    inputIndex: index >= 0 ? sourceIndex[index] : null,
+    expected: target,
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Finesse Solver
+ *
+ * Breadth-first search over the input graph - taps, DAS to wall, soft drop
+ * and rotations with SRS kicks - to find every minimal-input sequence that
+ * lands a piece on a given placement. Searching on the real grid covers
+ * tucks and spins under the stack. Placements are compared by the cells
+ * they occupy, so equivalent orientations (S/Z/I vertical, O) are handled
+ * without special cases.
+ */
+
+import type { TetrominoType } from './types';
+import type { FinesseMove } from './finesse-data';
+import {
+  Grid,
+  Piece,
+  createEmptyGrid,
+  spawnPosition,
+  tryMove,
+  tryRotate,
+  moveToWall,
+  dropPiece,
+  checkCollision,
+  getPieceCells,
+  getPieceColumn,
+} from './board';
+
+/**
+ * Options that change the input graph
+ */
+export interface SolverOptions {
+  grid?: Grid;              // Board to solve on (empty by default)
+  spawnColumn?: number;     // Spawn x position (defaults to STARTING_COL)
+  allow180?: boolean;       // Whether a 180 rotation key is available
+  instantGravity?: boolean; // 20G - the piece falls to the stack after every input
+}
+
+/**
+ * A single keypress and the finesse move it records
+ */
+interface SolverInput {
+  move: FinesseMove;
+  apply: (grid: Grid, piece: Piece) => Piece | null;
+}
+
+const ROTATION_INPUTS: SolverInput[] = [
+  { move: 'C', apply: (grid, piece) => tryRotate(grid, piece, 1) },
+  { move: 'CC', apply: (grid, piece) => tryRotate(grid, piece, -1) },
+];
+
+const ROTATE_180_INPUT: SolverInput = {
+  move: '180',
+  apply: (grid, piece) => tryRotate(grid, piece, 2),
+};
+
+const SHIFT_INPUTS: SolverInput[] = [
+  { move: 'L', apply: (grid, piece) => tryMove(grid, piece, -1, 0) },
+  { move: 'R', apply: (grid, piece) => tryMove(grid, piece, 1, 0) },
+  { move: 'DL', apply: (grid, piece) => moveToWall(grid, piece, -1) },
+  { move: 'DR', apply: (grid, piece) => moveToWall(grid, piece, 1) },
+];
+
+// Soft drop is held to the floor before tucking or spinning
+const SOFT_DROP_INPUT: SolverInput = {
+  move: 'SD',
+  apply: (grid, piece) => dropPiece(grid, piece),
+};
+
+// Pieces kicked this far above the board are not explored further
+const MIN_SEARCH_Y = -4;
+
+const EMPTY_GRID = createEmptyGrid();
+
+function getInputs(options: SolverOptions, softDrop: boolean): SolverInput[] {
+  return [
+    ...ROTATION_INPUTS,
+    ...(options.allow180 ? [ROTATE_180_INPUT] : []),
+    ...SHIFT_INPUTS,
+    ...(softDrop ? [SOFT_DROP_INPUT] : []),
+  ];
+}
+
+function pieceKey(piece: Piece): string {
+  return `${piece.x},${piece.y},${piece.rotation}`;
+}
+
+/**
+ * Order-independent key for the cells a piece occupies
+ */
+function cellsKey(piece: Piece): string {
+  return getPieceCells(piece)
+    .map(([x, y]) => `${x}:${y}`)
+    .sort()
+    .join('|');
+}
+
+interface SearchNode {
+  piece: Piece;
+  dist: number;
+  parents: { key: string; input: number }[];
+}
+
+/**
+ * Find every minimal input sequence that hard drops a piece onto `landing`.
+ * Each sequence ends with DROP. Soft drop is only used when the placement
+ * can't be reached from above (tucks and spins). Returns [] when the
+ * placement is unreachable.
+ */
+export function solvePlacement(
+  type: TetrominoType,
+  landing: Piece,
+  options: SolverOptions = {}
+): FinesseMove[][] {
+  const hardDropOnly = search(type, landing, options, getInputs(options, false));
+  return hardDropOnly.length > 0
+    ? hardDropOnly
+    : search(type, landing, options, getInputs(options, true));
+}
+
+function search(
+  type: TetrominoType,
+  landing: Piece,
+  options: SolverOptions,
+  inputs: SolverInput[]
+): FinesseMove[][] {
+  const grid = options.grid ?? EMPTY_GRID;
+  const goal = cellsKey(landing);
+
+  // Under 20G the piece only ever rests on the stack, so shifts slide
+  // along the surface and can be blocked by it
+  const settle = (piece: Piece) => options.instantGravity ? dropPiece(grid, piece) : piece;
+
+  const spawn = spawnPosition(type, options.spawnColumn);
+  if (checkCollision(grid, spawn)) return [];
+  const start = settle(spawn);
+
+  const nodes = new Map<string, SearchNode>();
+  nodes.set(pieceKey(start), { piece: start, dist: 0, parents: [] });
+  const queue = [pieceKey(start)];
+  const goals: string[] = [];
+  let bestDist = Infinity;
+
+  // BFS by input count - every shortest path to each state is kept in `parents`
+  for (let head = 0; head < queue.length; head++) {
+    const key = queue[head];
+    const node = nodes.get(key)!;
+    if (node.dist > bestDist) break;
+
+    if (cellsKey(dropPiece(grid, node.piece)) === goal) {
+      goals.push(key);
+      bestDist = node.dist;
+    }
+    if (node.dist === bestDist) continue;
+
+    inputs.forEach((input, index) => {
+      const moved = input.apply(grid, node.piece);
+      if (!moved || moved.y < MIN_SEARCH_Y) return;
+      const next = settle(moved);
+      const nextKey = pieceKey(next);
+      if (nextKey === key) return;
+
+      const existing = nodes.get(nextKey);
+      if (!existing) {
+        nodes.set(nextKey, { piece: next, dist: node.dist + 1, parents: [{ key, input: index }] });
+        queue.push(nextKey);
+      } else if (existing.dist === node.dist + 1) {
+        existing.parents.push({ key, input: index });
+      }
+    });
+  }
+
+  // Walk parents back to the spawn to expand every shortest path
+  const pathCache = new Map<string, FinesseMove[][]>();
+  const pathsTo = (key: string): FinesseMove[][] => {
+    const cached = pathCache.get(key);
+    if (cached) return cached;
+    const node = nodes.get(key)!;
+    const paths = node.parents.length === 0
+      ? [[]]
+      : node.parents.flatMap(({ key: parentKey, input }) =>
+        pathsTo(parentKey).map(path => [...path, inputs[input].move])
+      );
+    pathCache.set(key, paths);
+    return paths;
+  };
+
+  return goals.flatMap(key => pathsTo(key).map(path => [...path, 'DROP' as FinesseMove]));
+}
+
+/**
+ * Find every minimal input sequence that hard drops a piece with the given
+ * rotation so its leftmost cell is in `column`.
+ */
+export function solveFinesse(
+  type: TetrominoType,
+  column: number,
+  rotation: number,
+  options: SolverOptions = {}
+): FinesseMove[][] {
+  const grid = options.grid ?? EMPTY_GRID;
+  const offset = getPieceColumn({ type, rotation, x: 0, y: 0 });
+  const above: Piece = { type, rotation, x: column - offset, y: -2 };
+  if (checkCollision(grid, above)) return [];
+
+  return solvePlacement(type, dropPiece(grid, above), options);
+}
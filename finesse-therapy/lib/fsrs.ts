@@ -0,0 +1,215 @@
+/**
+ * FSRS Spaced Repetition Algorithm Implementation
+ *
+ * Free Spaced Repetition Scheduler (FSRS-5) with the default parameters.
+ * Each card tracks memory stability (the interval at which recall drops to
+ * 90%) and difficulty (1-10). Time is counted in days on the wall clock,
+ * like the SM-2 scheduler.
+ */
+
+import {
+  Card,
+  Scheduler,
+  Quality,
+  RECALLED_QUALITY,
+  getDueAt,
+  getElapsedDays,
+  getNextReviewAt,
+  updateLapses,
+} from './scheduler';
+import type { SM2Card } from './sm2';
+
+/**
+ * Represents a single pattern's memory state
+ */
+export interface FSRSCard extends Card {
+  stability: number;           // Days until recall probability falls to 90%
+  difficulty: number;          // 1 (easy) to 10 (hard)
+}
+
+/**
+ * FSRS grade - 1 = Again, 2 = Hard, 3 = Good, 4 = Easy
+ */
+export type Grade = 1 | 2 | 3 | 4;
+
+// Default FSRS-5 parameters
+const W = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192,
+  1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621,
+];
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+// Recall probability reviews are scheduled at
+const DESIRED_RETENTION = 0.9;
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+// Shortest interval (in days)
+const MIN_INTERVAL = 1;
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, difficulty));
+}
+
+/**
+ * Probability of recall after `elapsed` days
+ */
+export function getRetrievability(stability: number, elapsed: number): number {
+  return Math.pow(1 + FACTOR * elapsed / stability, DECAY);
+}
+
+/**
+ * Interval that brings recall probability down to the desired retention
+ */
+function getInterval(stability: number): number {
+  const interval = stability / FACTOR * (Math.pow(DESIRED_RETENTION, 1 / DECAY) - 1);
+  return Math.max(MIN_INTERVAL, Math.round(interval));
+}
+
+function initialStability(grade: Grade): number {
+  return W[grade - 1];
+}
+
+function initialDifficulty(grade: Grade): number {
+  return clampDifficulty(W[4] - Math.exp(W[5] * (grade - 1)) + 1);
+}
+
+function nextDifficulty(difficulty: number, grade: Grade): number {
+  const delta = -W[6] * (grade - 3);
+  // Linear damping towards 10, then mean reversion towards an Easy first review
+  const damped = difficulty + delta * (MAX_DIFFICULTY - difficulty) / 9;
+  return clampDifficulty(W[7] * initialDifficulty(4) + (1 - W[7]) * damped);
+}
+
+function recallStability(difficulty: number, stability: number, retrievability: number, grade: Grade): number {
+  const hardPenalty = grade === 2 ? W[15] : 1;
+  const easyBonus = grade === 4 ? W[16] : 1;
+  return stability * (
+    Math.exp(W[8]) *
+    (11 - difficulty) *
+    Math.pow(stability, -W[9]) *
+    (Math.exp(W[10] * (1 - retrievability)) - 1) *
+    hardPenalty *
+    easyBonus +
+    1
+  );
+}
+
+function forgetStability(difficulty: number, stability: number, retrievability: number): number {
+  const newStability = W[11] *
+    Math.pow(difficulty, -W[12]) *
+    (Math.pow(stability + 1, W[13]) - 1) *
+    Math.exp(W[14] * (1 - retrievability));
+  return Math.min(newStability, stability);
+}
+
+// FSRS grade for each review quality - failed reviews are Again, passing
+// ones Hard, Good or Easy
+const QUALITY_GRADES: Record<Quality, Grade> = {
+  0: 1,
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 3,
+  5: 4,
+};
+
+/**
+ * Convert a 0-5 review quality to an FSRS grade
+ */
+export function getGrade(quality: Quality): Grade {
+  return QUALITY_GRADES[quality];
+}
+
+/**
+ * Initialize a new FSRS card for a pattern (scheduled by its first review)
+ */
+export function initCard(patternId: string, globalRepetitionCount: number = 0): FSRSCard {
+  return {
+    patternId,
+    stability: 0,
+    difficulty: 0,
+    successCount: 0,
+    failCount: 0,
+    lastReviewed: Date.now(),
+    nextReviewAt: globalRepetitionCount,
+    dueAt: Date.now(),
+    lapses: 0,
+    leech: false,
+  };
+}
+
+/**
+ * Review a card and update its memory state
+ */
+export function reviewCard(
+  card: FSRSCard,
+  quality: Quality,
+  globalRepetitionCount: number
+): FSRSCard {
+  const recalled = quality >= RECALLED_QUALITY;
+  const grade = getGrade(quality);
+  const now = Date.now();
+  let stability: number;
+  let difficulty: number;
+
+  if (card.stability <= 0) {
+    // First review
+    stability = initialStability(grade);
+    difficulty = initialDifficulty(grade);
+  } else {
+    const elapsed = getElapsedDays(card.lastReviewed, now);
+    const retrievability = getRetrievability(card.stability, elapsed);
+    difficulty = nextDifficulty(card.difficulty, grade);
+    stability = grade === 1
+      ? forgetStability(card.difficulty, card.stability, retrievability)
+      : recallStability(card.difficulty, card.stability, retrievability, grade);
+  }
+
+  const interval = getInterval(stability);
+  return {
+    ...card,
+    stability,
+    difficulty,
+    successCount: recalled ? card.successCount + 1 : card.successCount,
+    failCount: recalled ? card.failCount : card.failCount + 1,
+    lastReviewed: now,
+    nextReviewAt: getNextReviewAt(quality, globalRepetitionCount),
+    dueAt: getDueAt(quality, interval, now),
+    ...updateLapses(card, recalled),
+  };
+}
+
+function isFSRSCard(card: Card): card is FSRSCard {
+  return 'stability' in card && 'difficulty' in card;
+}
+
+/**
+ * Convert a card from another scheduler, keeping its next review.
+ * An SM-2 interval is scheduled at roughly 90% recall, so it becomes the
+ * stability; difficulty is estimated from the easiness factor.
+ */
+export function migrateCard(card: Card): FSRSCard {
+  if (isFSRSCard(card)) return card;
+
+  const sm2 = card as Partial<SM2Card>;
+  const interval = Math.max(MIN_INTERVAL, sm2.interval ?? getElapsedDays(card.lastReviewed, card.dueAt));
+  return {
+    patternId: card.patternId,
+    successCount: card.successCount,
+    failCount: card.failCount,
+    lastReviewed: card.lastReviewed,
+    nextReviewAt: card.nextReviewAt,
+    dueAt: card.dueAt,
+    lapses: card.lapses,
+    leech: card.leech,
+    stability: interval,
+    difficulty: clampDifficulty(11 - (sm2.easiness ?? 2.5) * 2),
+  };
+}
+
+export const fsrsScheduler: Scheduler<FSRSCard> = {
+  type: 'FSRS',
+  initCard,
+  reviewCard,
+  migrateCard,
+};
@@ -0,0 +1,1056 @@
+/**
+ * Headless Tetris Game Engine
+ *
+ * Pure TypeScript implementation of the finesse trainer's game rules:
+ * collision, SRS rotation, DAS/ARR handling, gravity and lock delay, hard
+ * drop, line clears and finesse scoring. The engine owns an explicit state object and is driven
+ * entirely through `step(input, timestamp)`, so it runs without a browser
+ * and produces identical results for identical input streams.
+ */
+
+import { TetrominoType, GameAction, TETROMINO_SHAPES } from './types';
+import {
+  FinesseMove,
+  FinesseOptions,
+  PieceIndex,
+  generateTarget,
+} from './finesse-data';
+import {
+  Grid,
+  Piece,
+  GRID_HEIGHT,
+  createEmptyGrid,
+  spawnPosition,
+  tryMove,
+  tryRotate,
+  moveToWall,
+  dropPiece,
+  checkCollision,
+  getPieceColumn,
+  placePiece,
+  clearLines,
+} from './board';
+import { solvePlacement } from './finesse-solver';
+import { FinesseVerdict, GradeOptions, CORRECT_VERDICT, gradeMoves } from './finesse-grader';
+import {
+  RandomizerType,
+  Random,
+  Randomizer,
+  ALL_PIECES,
+  createRandom,
+  createRandomizer,
+  hashSeed,
+  randomSeed,
+} from './randomizer';
+
+// Delay between locking a piece and spawning the next one in the practice
+// modes (ms). Stacking modes use the ARE and line clear delay settings instead
+export const SPAWN_DELAY_MS = 50;
+
+// Gravity at or above this drops the piece to the stack instantly (20G)
+export const INSTANT_GRAVITY = 20;
+
+// Lines to clear to finish a sprint
+export const SPRINT_LINES = 40;
+
+// Settings are in frames, converted to milliseconds at 60fps
+export const FRAME_MS = 1000 / 60;
+
+export interface Target {
+  column: number;
+  rotation: number;
+  moves: FinesseMove[][];
+}
+
+/**
+ * Target chosen by the learning system, including the piece to spawn
+ */
+export interface LearningTarget {
+  piece: TetrominoType;
+  column: number;
+  rotation: number;
+  moves: FinesseMove[][];
+}
+
+export type GameMode = 'RANDOM' | 'Z_ONLY' | 'S_ONLY' | 'I_ONLY' | 'T_ONLY' | 'O_ONLY' | 'L_ONLY' | 'J_ONLY' | 'FREE_STACK' | 'SPRINT_40L' | 'LEARNING';
+
+export const GAME_MODES: GameMode[] = ['RANDOM', 'Z_ONLY', 'S_ONLY', 'I_ONLY', 'T_ONLY', 'O_ONLY', 'L_ONLY', 'J_ONLY', 'FREE_STACK', 'SPRINT_40L', 'LEARNING'];
+
+/**
+ * Modes that keep the board between pieces - no targets, the placement is
+ * graded against the solver on the real stack
+ */
+export function isStackingMode(mode: GameMode): boolean {
+  return mode === 'FREE_STACK' || mode === 'SPRINT_40L';
+}
+
+/**
+ * Modes a Master Mode run can be played in - target practice, outside the
+ * learning system
+ */
+export function supportsMasterMode(mode: GameMode): boolean {
+  return !isStackingMode(mode) && mode !== 'LEARNING';
+}
+
+export const PIECE_MAP: Record<TetrominoType, PieceIndex> = {
+  'Z': 0, 'S': 1, 'I': 2, 'T': 3, 'O': 4, 'L': 5, 'J': 6
+};
+
+const MODE_PIECES: Record<GameMode, TetrominoType[] | null> = {
+  'RANDOM': null,
+  'Z_ONLY': ['Z'],
+  'S_ONLY': ['S'],
+  'I_ONLY': ['I'],
+  'T_ONLY': ['T'],
+  'O_ONLY': ['O'],
+  'L_ONLY': ['L'],
+  'J_ONLY': ['J'],
+  'FREE_STACK': null,
+  'SPRINT_40L': null,
+  'LEARNING': null,
+};
+
+/**
+ * Handling and grading settings consumed by the engine (all timings in frames)
+ */
+export interface HandlingSettings {
+  DAS: number;      // Delayed Auto Shift (frames before auto-repeat starts)
+  ARR: number;      // Auto Repeat Rate (frames between repeats, -1 = instant)
+  SDR: number;      // Soft Drop Rate (frames between soft drops, -1 = instant)
+  retryOnFault: boolean;
+  allow180: boolean; // Targets and grading use 180 finesse
+  strictFinesse: boolean; // Exact ordered finesse, no leniency
+  randomizer: RandomizerType;
+  seed: string;       // Piece order seed ('' = new seed every game)
+  // Stacking mode timing
+  gravity: number;    // Rows per frame (0 = no gravity, 20 = 20G)
+  lockDelay: number;  // Frames a grounded piece waits before locking
+  lockResets: number; // Moves/rotations that restart the lock delay per row
+  ARE: number;        // Entry delay (frames between lock and spawn)
+  lineClearDelay: number; // Extra frames before spawn when lines clear
+  sprintPenalty: number;  // Seconds added to a sprint time per finesse fault
+  masterMode: boolean;    // No hints, strict grading, a fault ends the run
+}
+
+export const DEFAULT_HANDLING: HandlingSettings = {
+  DAS: 10,
+  ARR: -1,
+  SDR: -1,
+  retryOnFault: false,
+  allow180: false,
+  strictFinesse: false,
+  randomizer: 'BAG_7',
+  seed: '',
+  gravity: 0,
+  lockDelay: 30,
+  lockResets: 15,
+  ARE: 3,
+  lineClearDelay: 0,
+  sprintPenalty: 0,
+  masterMode: false,
+};
+
+/**
+ * Whether two sets of settings play the same - anything the engine doesn't
+ * read is ignored
+ */
+export function isSameHandling(a: HandlingSettings, b: HandlingSettings): boolean {
+  return (Object.keys(DEFAULT_HANDLING) as (keyof HandlingSettings)[]).every(key => a[key] === b[key]);
+}
+
+export interface GameScore {
+  correct: number;
+  total: number;
+  combo: number;
+  topCombo: number;
+  kpp: number;
+  totalKeys: number;
+}
+
+/**
+ * Held-key state for a horizontal direction
+ */
+interface ShiftState {
+  held: boolean;
+  pressedAt: number;        // Timestamp the DAS timer started from
+  charged: boolean;         // DAS delay elapsed (recorded as DL/DR on release)
+  repeats: number;          // Auto-repeat moves already applied since pressedAt
+  recorded: boolean;        // Already recorded for the current piece, when it locked while held
+}
+
+interface SoftDropState {
+  held: boolean;
+  pressedAt: number;
+  repeats: number;
+}
+
+/**
+ * Gravity and lock delay state of the current piece
+ */
+interface LockState {
+  fall: number;               // Fractional rows of gravity not yet applied
+  groundedAt: number | null;  // Timestamp the lock delay started from
+  resets: number;             // Lock delay resets used on the lowest row
+  lowestY: number;            // Lowest row reached - reaching a new one restores resets
+}
+
+/**
+ * A finesse fault made during a sprint or Master Mode run
+ */
+export interface SprintFault {
+  piece: number;            // Piece number, from 1
+  type: TetrominoType;
+  moves: FinesseMove[];
+  verdict: FinesseVerdict;
+}
+
+/**
+ * Progress and result of a SPRINT_40L game
+ */
+export interface SprintState {
+  startedAt: number;
+  finishedAt: number | null;  // Set when the sprint completes or tops out
+  complete: boolean;          // All SPRINT_LINES cleared
+  penaltyMs: number;          // Penalty per fault, fixed when the sprint started
+  faults: SprintFault[];
+}
+
+/**
+ * Progress and result of a Master Mode run
+ */
+export interface MasterRun {
+  startedAt: number;
+  endedAt: number | null;     // Set by the fault that ends the run
+  fault: SprintFault | null;
+}
+
+/**
+ * Sprint time so far (or final time) with and without fault penalties
+ */
+export function getSprintTime(sprint: SprintState, now: number): { time: number; penalty: number; total: number } {
+  const time = (sprint.finishedAt ?? now) - sprint.startedAt;
+  const penalty = sprint.faults.length * sprint.penaltyMs;
+  return { time, penalty, total: time + penalty };
+}
+
+/**
+ * Complete engine state
+ */
+export interface EngineState {
+  grid: Grid;
+  currentPiece: Piece | null;
+  hold: TetrominoType | null;
+  canHold: boolean;
+  seed: string;                 // Seed of the current game's piece order
+  queue: TetrominoType[];       // Upcoming pieces already drawn from the randomizer
+  nextQueue: TetrominoType[];
+  target: Target | null;
+  learningTarget: { piece: TetrominoType; column: number; rotation: number } | null;
+  moves: FinesseMove[];
+  keyCount: number;
+  // Inputs and grading of the last placement, kept for fault diagnosis
+  lastResult: { moves: FinesseMove[]; verdict: FinesseVerdict } | null;
+  score: GameScore;
+  lines: number;                // Lines cleared this game (stacking modes)
+  sprint: SprintState | null;
+  master: MasterRun | null;     // Master Mode run, when one is being played
+  gameOver: boolean;
+  mode: GameMode;
+  pendingSpawnAt: number | null;
+  left: ShiftState;
+  right: ShiftState;
+  softDrop: SoftDropState;
+  lock: LockState;
+}
+
+export interface EngineInput {
+  action: GameAction;
+  isKeyDown: boolean;
+}
+
+/**
+ * Events emitted by `step` so frontends can react to discrete game changes
+ */
+export type EngineEvent =
+  | { type: 'spawn'; piece: TetrominoType; learningTarget?: LearningTarget }
+  | {
+    type: 'lock';
+    piece: Piece;
+    column: number;
+    correct: boolean;
+    verdict: FinesseVerdict;
+    moves: FinesseMove[];
+    linesCleared: number;
+    learningTarget: EngineState['learningTarget'];
+  }
+  | { type: 'retry' }
+  | { type: 'topOut' }
+  | { type: 'finish'; sprint: SprintState }
+  | { type: 'masterEnd'; master: MasterRun; pieces: number }
+  | { type: 'start' }
+  | { type: 'mode'; mode: GameMode };
+
+export interface GameEngineOptions {
+  mode?: GameMode;
+  settings?: HandlingSettings;
+  // Chooses the next piece and target in LEARNING mode
+  selectLearningTarget?: () => LearningTarget | null;
+}
+
+export function createEmptyScore(): GameScore {
+  return { correct: 0, total: 0, combo: 0, topCombo: 0, kpp: 0, totalKeys: 0 };
+}
+
+/**
+ * Seeded piece and target generators for a game
+ */
+export function createGenerators(
+  mode: GameMode,
+  type: RandomizerType,
+  seed: string
+): { pieces: Randomizer; targets: Random } {
+  return {
+    pieces: createRandomizer(type, MODE_PIECES[mode] ?? ALL_PIECES, createRandom(hashSeed(seed))),
+    // Separate stream so target choice never shifts the piece order
+    targets: createRandom(hashSeed(`${seed}:targets`)),
+  };
+}
+
+/**
+ * Grade a landed piece and its inputs against the finesse target
+ */
+export function gradePlacement(
+  piece: Piece,
+  moves: FinesseMove[],
+  target: Target,
+  options: GradeOptions = {}
+): FinesseVerdict {
+  const actualColumn = getPieceColumn(piece);
+
+  // Check if position matches target (comparing actual leftmost columns)
+  // For Z, S, I pieces: rotations 0/2 are equivalent, and rotations 1/3 are equivalent
+  // (the solver's answers already cover both vertical rotations)
+  const pieceType = piece.type;
+  const isTwoRotationPiece = pieceType === 'Z' || pieceType === 'S' || pieceType === 'I';
+  const rotationMatches = isTwoRotationPiece
+    ? (piece.rotation % 2) === (target.rotation % 2)
+    : piece.rotation === target.rotation;
+  const positionCorrect = actualColumn === target.column && rotationMatches;
+
+  const verdict = gradeMoves(moves, target.moves, options);
+  if (!positionCorrect && verdict.correct) {
+    return { correct: false, fault: 'WRONG_PLACEMENT', inputIndex: null, expected: null };
+  }
+  return verdict;
+}
+
+/**
+ * Position of the target outline, resting on the floor
+ */
+export function getTargetPlacement(target: Target, type: TetrominoType): Piece {
+  const shape = TETROMINO_SHAPES[type][target.rotation];
+
+  // Find the lowest row in the shape that has filled cells
+  let lowestFilledRow = 0;
+  for (let y = shape.length - 1; y >= 0; y--) {
+    if (shape[y].some(cell => cell)) {
+      lowestFilledRow = y;
+      break;
+    }
+  }
+
+  // The target column refers to where the leftmost filled cell should be
+  // So we need to subtract the leftmost filled column offset
+  const leftmostFilledCol = getPieceColumn({ type, rotation: target.rotation, x: 0, y: 0 });
+
+  return {
+    type,
+    rotation: target.rotation,
+    x: target.column - leftmostFilledCol,
+    // Position so the bottom of the piece sits at the bottom of the grid
+    y: (GRID_HEIGHT - 1) - lowestFilledRow,
+  };
+}
+
+function createShiftState(): ShiftState {
+  return { held: false, pressedAt: 0, charged: false, repeats: 0, recorded: false };
+}
+
+function createLockState(piece: Piece | null): LockState {
+  return { fall: 0, groundedAt: null, resets: 0, lowestY: piece?.y ?? 0 };
+}
+
+/**
+ * Create a fresh engine state for a mode (game over until started)
+ */
+export function createInitialState(mode: GameMode = 'RANDOM'): EngineState {
+  return {
+    grid: createEmptyGrid(),
+    currentPiece: null,
+    hold: null,
+    canHold: true,
+    seed: '',
+    queue: [],
+    nextQueue: [],
+    target: null,
+    learningTarget: null,
+    moves: [],
+    keyCount: 0,
+    lastResult: null,
+    score: createEmptyScore(),
+    lines: 0,
+    sprint: null,
+    master: null,
+    gameOver: true,
+    mode,
+    pendingSpawnAt: null,
+    left: createShiftState(),
+    right: createShiftState(),
+    softDrop: { held: false, pressedAt: 0, repeats: 0 },
+    lock: createLockState(null),
+  };
+}
+
+/**
+ * Game engine driven by timestamped inputs
+ */
+export class GameEngine {
+  state: EngineState;
+  private settings: HandlingSettings;
+  private selectLearningTarget?: () => LearningTarget | null;
+  private events: EngineEvent[] = [];
+  private lastTimestamp = 0;
+  private generators: { pieces: Randomizer; targets: Random };
+
+  constructor(options: GameEngineOptions = {}) {
+    this.state = createInitialState(options.mode);
+    this.settings = options.settings ?? DEFAULT_HANDLING;
+    this.selectLearningTarget = options.selectLearningTarget;
+    this.generators = createGenerators(this.state.mode, this.settings.randomizer, randomSeed());
+  }
+
+  /**
+   * Engine time of the last step (ms)
+   */
+  getTime(): number {
+    return this.lastTimestamp;
+  }
+
+  /**
+   * Current handling settings
+   */
+  getSettings(): HandlingSettings {
+    return this.settings;
+  }
+
+  /**
+   * Update handling settings or the learning target selector
+   */
+  configure(options: Omit<GameEngineOptions, 'mode'>) {
+    if (options.settings) this.settings = options.settings;
+    if (options.selectLearningTarget) this.selectLearningTarget = options.selectLearningTarget;
+  }
+
+  /**
+   * Advance the simulation to `timestamp` and apply an optional input.
+   * Returns the events produced during this step.
+   */
+  step(input: EngineInput | null, timestamp: number): EngineEvent[] {
+    this.events = [];
+    // Time runs in whole milliseconds. Frame timestamps can trail event
+    // timestamps slightly - never move time backwards
+    timestamp = Math.max(Math.floor(timestamp), this.lastTimestamp);
+    this.advance(timestamp);
+    this.lastTimestamp = timestamp;
+    if (input) {
+      this.applyInput(input, timestamp);
+    }
+    return this.events;
+  }
+
+  /**
+   * Start a new game in the current mode.
+   * Uses the seed setting, or a fresh seed when none is set.
+   */
+  start() {
+    const s = this.state;
+    s.grid = createEmptyGrid();
+    s.hold = null;
+    s.canHold = true;
+    s.score = createEmptyScore();
+    s.lines = 0;
+    s.sprint = s.mode === 'SPRINT_40L'
+      ? {
+        startedAt: this.lastTimestamp,
+        finishedAt: null,
+        complete: false,
+        penaltyMs: this.settings.sprintPenalty * 1000,
+        faults: [],
+      }
+      : null;
+    // Master Mode is fixed for the run when it starts
+    s.master = this.settings.masterMode && supportsMasterMode(s.mode)
+      ? { startedAt: this.lastTimestamp, endedAt: null, fault: null }
+      : null;
+    s.gameOver = false;
+    s.seed = this.settings.seed || randomSeed();
+    this.generators = createGenerators(s.mode, this.settings.randomizer, s.seed);
+    s.queue = [];
+    s.moves = [];
+    s.lastResult = null;
+    s.pendingSpawnAt = null;
+    this.events.push({ type: 'start' });
+    this.spawn();
+  }
+
+  /**
+   * Switch mode and wait for the next start
+   */
+  setMode(mode: GameMode) {
+    const s = this.state;
+    s.mode = mode;
+    s.grid = createEmptyGrid();
+    s.hold = null;
+    s.score = createEmptyScore();
+    s.lines = 0;
+    s.sprint = null;
+    s.master = null;
+    s.gameOver = true;
+    s.currentPiece = null;
+    s.target = null;
+    s.lastResult = null;
+    s.pendingSpawnAt = null;
+    this.events.push({ type: 'mode', mode });
+  }
+
+  /**
+   * Reset the current piece to its spawn position (for retry on fault)
+   */
+  resetPiece(resetCombo = true) {
+    const s = this.state;
+    const piece = s.currentPiece;
+    if (!piece) return;
+
+    s.currentPiece = spawnPosition(piece.type);
+    s.lock = createLockState(s.currentPiece);
+    s.moves = [];
+    s.keyCount = 0;
+
+    // Reset held inputs so DAS doesn't carry into the retry
+    s.left = createShiftState();
+    s.right = createShiftState();
+    s.softDrop = { held: false, pressedAt: 0, repeats: 0 };
+
+    // Reset combo when fault occurs
+    if (resetCombo) {
+      s.score = { ...s.score, combo: 0 };
+    }
+  }
+
+  /**
+   * Grade dropping the current piece now, without dropping it
+   */
+  gradeCurrentPlacement(): FinesseVerdict {
+    const s = this.state;
+    const piece = s.currentPiece;
+    if (!piece || isStackingMode(s.mode)) return CORRECT_VERDICT;
+    if (!s.target) return CORRECT_VERDICT;
+
+    // Include held shifts and DROP in the check since that's what we're about to do
+    return gradePlacement(dropPiece(s.grid, piece), [...s.moves, ...this.heldShiftMoves(), 'DROP'], s.target, this.gradeOptions());
+  }
+
+  /**
+   * Check whether dropping the current piece now would be correct
+   */
+  validateCurrentPlacement(): boolean {
+    return this.gradeCurrentPlacement().correct;
+  }
+
+  /**
+   * Keep the diagnosis of a drop the frontend rejected before it locked
+   */
+  recordFault(verdict: FinesseVerdict) {
+    this.state.lastResult = { moves: [...this.state.moves, ...this.heldShiftMoves(), 'DROP'], verdict };
+  }
+
+  /**
+   * Target outline for rendering
+   */
+  getTargetPiece(): Piece | null {
+    const s = this.state;
+    if (!s.target || !s.currentPiece || isStackingMode(s.mode)) return null;
+    return getTargetPlacement(s.target, s.currentPiece.type);
+  }
+
+  // Simulate every millisecond up to `timestamp`, so the result doesn't
+  // depend on how often step() is called
+  private advance(timestamp: number) {
+    for (let t = this.lastTimestamp + 1; t <= timestamp && this.isTimed(); t++) {
+      this.lastTimestamp = t;
+      this.tick(t);
+    }
+  }
+
+  // Whether anything changes with time alone
+  private isTimed(): boolean {
+    const s = this.state;
+    if (s.gameOver) return false;
+    if (s.pendingSpawnAt !== null) return true;
+    return s.currentPiece !== null && (s.left.held || s.right.held || s.softDrop.held || this.hasGravity());
+  }
+
+  // Gravity and lock delay only apply when stacking
+  private hasGravity(): boolean {
+    return isStackingMode(this.state.mode) && this.settings.gravity > 0;
+  }
+
+  private tick(timestamp: number) {
+    const s = this.state;
+    if (s.pendingSpawnAt !== null && timestamp >= s.pendingSpawnAt) {
+      s.pendingSpawnAt = null;
+      // Full rows stay on the board until the line clear delay is over
+      s.grid = clearLines(s.grid).grid;
+      this.spawn();
+    }
+    if (s.gameOver || !s.currentPiece) return;
+
+    this.advanceShift(s.left, -1, timestamp);
+    this.advanceShift(s.right, 1, timestamp);
+    this.advanceSoftDrop(timestamp);
+    if (this.hasGravity()) {
+      this.advanceGravity(timestamp);
+    }
+  }
+
+  private advanceGravity(timestamp: number) {
+    const s = this.state;
+    const { gravity } = this.settings;
+    const lock = s.lock;
+
+    if (gravity >= INSTANT_GRAVITY) {
+      s.currentPiece = dropPiece(s.grid, s.currentPiece!);
+    } else {
+      lock.fall += gravity / FRAME_MS;
+      while (lock.fall >= 1) {
+        const moved = tryMove(s.grid, s.currentPiece!, 0, 1);
+        if (!moved) {
+          lock.fall = 0;
+          break;
+        }
+        s.currentPiece = moved;
+        lock.fall -= 1;
+      }
+    }
+
+    const piece = s.currentPiece!;
+    if (piece.y > lock.lowestY) {
+      lock.lowestY = piece.y;
+      lock.resets = 0;
+    }
+    if (tryMove(s.grid, piece, 0, 1)) {
+      lock.groundedAt = null;
+      return;
+    }
+
+    lock.groundedAt ??= timestamp;
+    if (timestamp - lock.groundedAt >= this.settings.lockDelay * FRAME_MS) {
+      // Locking by lock delay stands in for the hard drop, without a keypress
+      this.recordHeldShifts();
+      s.moves = [...s.moves, 'DROP'];
+      this.lockCurrentPiece(piece, timestamp);
+    }
+  }
+
+  // Move or rotate the current piece, restarting the lock delay while grounded
+  private setPiece(piece: Piece, timestamp: number) {
+    const s = this.state;
+    const current = s.currentPiece;
+    s.currentPiece = piece;
+    if (!current || (piece.x === current.x && piece.y === current.y && piece.rotation === current.rotation)) return;
+
+    const lock = s.lock;
+    if (lock.groundedAt !== null && lock.resets < this.settings.lockResets) {
+      lock.resets++;
+      lock.groundedAt = timestamp;
+    }
+  }
+
+  private advanceShift(shift: ShiftState, direction: -1 | 1, timestamp: number) {
+    if (!shift.held) return;
+    const dasMs = this.settings.DAS * FRAME_MS;
+    const elapsed = timestamp - shift.pressedAt;
+    if (elapsed < dasMs) return;
+
+    shift.charged = true;
+    const piece = this.state.currentPiece!;
+    // ARR of 0 is treated as instant as well, keeping the result frame-rate independent
+    if (this.settings.ARR <= 0) {
+      this.setPiece(moveToWall(this.state.grid, piece, direction), timestamp);
+      return;
+    }
+
+    const arrMs = this.settings.ARR * FRAME_MS;
+    const due = Math.floor((elapsed - dasMs) / arrMs) + 1;
+    let moved = piece;
+    while (shift.repeats < due) {
+      shift.repeats++;
+      moved = tryMove(this.state.grid, moved, direction, 0) ?? moved;
+    }
+    this.setPiece(moved, timestamp);
+  }
+
+  private advanceSoftDrop(timestamp: number) {
+    const sd = this.state.softDrop;
+    if (!sd.held) return;
+    const piece = this.state.currentPiece!;
+    if (this.settings.SDR <= 0) {
+      this.state.currentPiece = dropPiece(this.state.grid, piece);
+      return;
+    }
+
+    const sdrMs = this.settings.SDR * FRAME_MS;
+    const due = Math.floor((timestamp - sd.pressedAt) / sdrMs);
+    let moved = piece;
+    while (sd.repeats < due) {
+      sd.repeats++;
+      moved = tryMove(this.state.grid, moved, 0, 1) ?? moved;
+    }
+    this.state.currentPiece = moved;
+  }
+
+  private applyInput({ action, isKeyDown }: EngineInput, timestamp: number) {
+    const s = this.state;
+    switch (action) {
+      case 'MOVE_LEFT':
+        if (isKeyDown) this.pressShift(s.left, s.right, -1, timestamp);
+        else this.releaseShift(s.left, 'L', 'DL');
+        break;
+      case 'MOVE_RIGHT':
+        if (isKeyDown) this.pressShift(s.right, s.left, 1, timestamp);
+        else this.releaseShift(s.right, 'R', 'DR');
+        break;
+      case 'SOFT_DROP':
+        if (isKeyDown) {
+          s.softDrop = { held: true, pressedAt: timestamp, repeats: 0 };
+          if (s.currentPiece && !s.gameOver) {
+            s.currentPiece = tryMove(s.grid, s.currentPiece, 0, 1) ?? s.currentPiece;
+          }
+          this.recordMove('SD');
+        } else {
+          s.softDrop.held = false;
+        }
+        break;
+      case 'HARD_DROP':
+        if (isKeyDown) {
+          if (s.gameOver) {
+            this.start();
+          } else {
+            this.hardDrop(timestamp);
+          }
+        }
+        break;
+      case 'ROTATE_CW':
+        if (isKeyDown) this.rotate(1, timestamp);
+        break;
+      case 'ROTATE_CCW':
+        if (isKeyDown) this.rotate(-1, timestamp);
+        break;
+      case 'ROTATE_180':
+        if (isKeyDown) this.rotate(2, timestamp);
+        break;
+      case 'HOLD':
+        if (isKeyDown) this.holdPiece();
+        break;
+      case 'RESET':
+        if (isKeyDown) this.start();
+        break;
+      case 'CHANGE_MODE':
+        if (isKeyDown) {
+          const currentIndex = GAME_MODES.indexOf(s.mode);
+          this.setMode(GAME_MODES[(currentIndex + 1) % GAME_MODES.length]);
+        }
+        break;
+    }
+  }
+
+  private finesseOptions(): FinesseOptions {
+    return { allow180: this.settings.allow180 };
+  }
+
+  private gradeOptions(): GradeOptions {
+    return {
+      allow180: this.settings.allow180,
+      strict: this.settings.strictFinesse || this.state.master !== null,
+    };
+  }
+
+  private recordMove(move: FinesseMove) {
+    this.state.moves = [...this.state.moves, move];
+    this.state.keyCount++;
+  }
+
+  private pressShift(shift: ShiftState, opposite: ShiftState, direction: -1 | 1, timestamp: number) {
+    const s = this.state;
+    if (s.gameOver || !s.currentPiece) return;
+    shift.held = true;
+    shift.pressedAt = timestamp;
+    shift.charged = false;
+    shift.repeats = 0;
+    shift.recorded = false;
+    // Restart the opposite direction's DAS timing (but not the charged flag - that's needed for move recording)
+    opposite.pressedAt = timestamp;
+    opposite.repeats = 0;
+    this.setPiece(tryMove(s.grid, s.currentPiece, direction, 0) ?? s.currentPiece, timestamp);
+  }
+
+  private releaseShift(shift: ShiftState, tap: FinesseMove, das: FinesseMove) {
+    shift.held = false;
+    if (!shift.recorded) {
+      this.recordMove(shift.charged ? das : tap);
+    }
+    shift.charged = false;
+    shift.recorded = false;
+  }
+
+  // Shifts still held and not yet recorded for this piece
+  private heldShiftMoves(): FinesseMove[] {
+    const { left, right } = this.state;
+    const moves: FinesseMove[] = [];
+    if (left.held && !left.recorded) moves.push(left.charged ? 'DL' : 'L');
+    if (right.held && !right.recorded) moves.push(right.charged ? 'DR' : 'R');
+    return moves;
+  }
+
+  // Shifts are recorded on release, so one still held when the piece locks
+  // (holding DAS through the drop) is recorded now instead
+  private recordHeldShifts() {
+    for (const move of this.heldShiftMoves()) {
+      this.recordMove(move);
+    }
+    this.state.left.recorded ||= this.state.left.held;
+    this.state.right.recorded ||= this.state.right.held;
+  }
+
+  private rotate(turns: 1 | -1 | 2, timestamp: number) {
+    const s = this.state;
+    if (!s.currentPiece || s.gameOver) return;
+    const rotated = tryRotate(s.grid, s.currentPiece, turns);
+    if (!rotated) return;
+    this.setPiece(rotated, timestamp);
+    this.recordMove(turns === 2 ? '180' : turns === 1 ? 'C' : 'CC');
+  }
+
+  private hardDrop(timestamp: number) {
+    const s = this.state;
+    const piece = s.currentPiece;
+    if (!piece || s.gameOver) return;
+
+    this.recordHeldShifts();
+    this.recordMove('DROP');
+    this.lockCurrentPiece(dropPiece(s.grid, piece), timestamp);
+  }
+
+  // Grade and lock the current piece at its final position
+  private lockCurrentPiece(finalPiece: Piece, timestamp: number) {
+    const s = this.state;
+    const piece = s.currentPiece!;
+
+    // Check finesse
+    let verdict: FinesseVerdict = { correct: false, fault: null, inputIndex: null, expected: null };
+    const actualColumn = getPieceColumn(finalPiece);
+    if (s.target && !isStackingMode(s.mode)) {
+      verdict = gradePlacement(finalPiece, s.moves, s.target, this.gradeOptions());
+    } else if (isStackingMode(s.mode)) {
+      // In stacking modes, solve the actual placement on the current stack so
+      // blocked DAS, tucks and spins are graded against their real minimum
+      const optimalMoves = solvePlacement(piece.type, finalPiece, {
+        grid: s.grid,
+        allow180: this.settings.allow180,
+        instantGravity: this.hasGravity() && this.settings.gravity >= INSTANT_GRAVITY,
+      });
+      // Placements the solver can't reach (e.g. a partial soft drop under an
+      // overhang) can't be graded, so they are not counted as faults
+      verdict = optimalMoves.length === 0
+        ? CORRECT_VERDICT
+        : gradeMoves(s.moves, optimalMoves, { ...this.gradeOptions(), allowSoftDrop: false });
+    }
+    const isCorrect = verdict.correct;
+    s.lastResult = { moves: s.moves, verdict };
+
+    // Update stats
+    const newTotal = s.score.total + 1;
+    const newCombo = isCorrect ? s.score.combo + 1 : 0;
+    const newTotalKeys = s.score.totalKeys + s.keyCount;
+    s.score = {
+      correct: s.score.correct + (isCorrect ? 1 : 0),
+      total: newTotal,
+      combo: newCombo,
+      topCombo: Math.max(s.score.topCombo, newCombo),
+      kpp: newTotalKeys / newTotal,
+      totalKeys: newTotalKeys,
+    };
+
+    // Practice modes don't keep the board, so only stacking modes clear lines
+    const placed = isStackingMode(s.mode) ? placePiece(s.grid, finalPiece) : s.grid;
+    const { linesCleared } = clearLines(placed);
+
+    this.events.push({
+      type: 'lock',
+      piece: finalPiece,
+      column: actualColumn,
+      correct: isCorrect,
+      verdict,
+      moves: s.moves,
+      linesCleared,
+      learningTarget: s.learningTarget,
+    });
+
+    s.lines += linesCleared;
+    if (s.sprint) {
+      if (!isCorrect) {
+        const fault: SprintFault = { piece: newTotal, type: piece.type, moves: s.moves, verdict };
+        s.sprint = { ...s.sprint, faults: [...s.sprint.faults, fault] };
+      }
+      if (s.lines >= SPRINT_LINES) {
+        s.grid = clearLines(placed).grid;
+        s.currentPiece = null;
+        s.gameOver = true;
+        s.sprint = { ...s.sprint, finishedAt: timestamp, complete: true };
+        this.events.push({ type: 'finish', sprint: s.sprint });
+        return;
+      }
+    }
+
+    // A fault ends a Master Mode run
+    if (s.master && !isCorrect) {
+      s.currentPiece = null;
+      s.gameOver = true;
+      s.master = {
+        ...s.master,
+        endedAt: timestamp,
+        fault: { piece: newTotal, type: piece.type, moves: s.moves, verdict },
+      };
+      this.events.push({ type: 'masterEnd', master: s.master, pieces: s.score.correct });
+      return;
+    }
+
+    // If retry on fault is enabled and finesse was incorrect, reset piece
+    if (this.settings.retryOnFault && !isCorrect && !isStackingMode(s.mode)) {
+      this.resetPiece(false); // Don't reset combo again, already done above
+      this.events.push({ type: 'retry' });
+      return;
+    }
+
+    // Clear current piece immediately to prevent ghost from showing during spawn delay
+    s.currentPiece = null;
+
+    if (!isStackingMode(s.mode)) {
+      // In finesse practice modes, reset board before the next piece
+      s.grid = createEmptyGrid();
+      s.pendingSpawnAt = timestamp + SPAWN_DELAY_MS;
+    } else {
+      // In stacking modes, place the piece - completed lines are cleared
+      // when the next piece spawns, after the line clear delay
+      s.grid = placed;
+      const delay = this.settings.ARE + (linesCleared > 0 ? this.settings.lineClearDelay : 0);
+      s.pendingSpawnAt = timestamp + delay * FRAME_MS;
+    }
+  }
+
+  private holdPiece() {
+    const s = this.state;
+    if (!s.currentPiece || !s.canHold || s.gameOver || !isStackingMode(s.mode)) return;
+
+    const heldType = s.hold;
+    s.hold = s.currentPiece.type;
+    this.spawn(heldType ?? undefined);
+    s.canHold = false;
+  }
+
+  private fillQueue(length: number) {
+    const s = this.state;
+    while (s.queue.length < length) {
+      s.queue = [...s.queue, this.generators.pieces.next()];
+    }
+  }
+
+  private nextPiece(): TetrominoType {
+    const s = this.state;
+    this.fillQueue(1);
+    const [piece, ...rest] = s.queue;
+    s.queue = rest;
+    return piece;
+  }
+
+  // Update next queue from the upcoming pieces
+  private updateNextQueue() {
+    const s = this.state;
+    // Draw more if needed to fill a preview of 5 pieces
+    this.fillQueue(5);
+    s.nextQueue = s.queue.slice(0, 5);
+  }
+
+  // Held keys are kept across spawns so DAS carries into the next piece
+  private spawn(type?: TetrominoType) {
+    const s = this.state;
+    s.canHold = true;
+    s.moves = [];
+    s.keyCount = 0;
+    // A shift carried into this piece is recorded for it as well
+    s.left.recorded = false;
+    s.right.recorded = false;
+
+    // For LEARNING mode, select target first to know which piece to spawn
+    if (s.mode === 'LEARNING' && this.selectLearningTarget && !type) {
+      const learningTarget = this.selectLearningTarget();
+      if (learningTarget) {
+        s.currentPiece = spawnPosition(learningTarget.piece);
+        s.target = {
+          column: learningTarget.column,
+          rotation: learningTarget.rotation,
+          moves: learningTarget.moves,
+        };
+        s.learningTarget = {
+          piece: learningTarget.piece,
+          column: learningTarget.column,
+          rotation: learningTarget.rotation,
+        };
+        // Update next queue for preview (still use bag system for preview)
+        this.updateNextQueue();
+        this.events.push({ type: 'spawn', piece: learningTarget.piece, learningTarget });
+        return;
+      }
+      // Fallback to random if no learning target available
+    }
+
+    const pieceType = type || this.nextPiece();
+    s.currentPiece = spawnPosition(pieceType);
+    s.lock = createLockState(s.currentPiece);
+
+    // Block out - the new piece overlaps the stack
+    if (checkCollision(s.grid, s.currentPiece)) {
+      s.currentPiece = null;
+      s.gameOver = true;
+      if (s.sprint) {
+        s.sprint = { ...s.sprint, finishedAt: this.lastTimestamp };
+      }
+      this.events.push({ type: 'topOut' });
+      return;
+    }
+
+    // Select target for finesse practice
+    if (isStackingMode(s.mode)) {
+      s.target = null;
+    } else {
+      s.target = generateTarget(PIECE_MAP[pieceType], this.finesseOptions(), this.generators.targets);
+    }
+    s.learningTarget = null;
+
+    // Update next queue preview
+    if (!type) {
+      this.updateNextQueue();
+    }
+    this.events.push({ type: 'spawn', piece: pieceType });
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Gamepad input
+ *
+ * The Gamepad API has no button events, so buttons are polled once per
+ * animation frame and turned into press/release edges - the same shape as
+ * keydown/keyup. Button indices follow the standard gamepad mapping.
+ */
+
+// Standard mapping button names
+export const GAMEPAD_BUTTON_NAMES: Record<number, string> = {
+  0: 'A',
+  1: 'B',
+  2: 'X',
+  3: 'Y',
+  4: 'LB',
+  5: 'RB',
+  6: 'LT',
+  7: 'RT',
+  8: 'BACK',
+  9: 'START',
+  10: 'L-STICK',
+  11: 'R-STICK',
+  12: 'D-PAD ↑',
+  13: 'D-PAD ↓',
+  14: 'D-PAD ←',
+  15: 'D-PAD →',
+  16: 'HOME',
+};
+
+export function formatGamepadButton(button: number): string {
+  return GAMEPAD_BUTTON_NAMES[button] ?? `BUTTON ${button}`;
+}
+
+/**
+ * A button press or release
+ */
+export interface GamepadButtonEdge {
+  button: number;
+  pressed: boolean;
+}
+
+// Buttons held on any connected gamepad
+function readPressedButtons(): Set<number> {
+  const pressed = new Set<number>();
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return pressed;
+
+  for (const pad of navigator.getGamepads()) {
+    if (!pad) continue;
+    pad.buttons.forEach((button, index) => {
+      if (button.pressed) pressed.add(index);
+    });
+  }
+  return pressed;
+}
+
+/**
+ * Tracks button state between polls. Buttons already held when the poller
+ * is created don't count as presses, so a new poller never repeats one.
+ */
+export class GamepadPoller {
+  private pressed = readPressedButtons();
+
+  /**
+   * Buttons pressed or released since the last poll
+   */
+  poll(): GamepadButtonEdge[] {
+    const current = readPressedButtons();
+    const edges: GamepadButtonEdge[] = [];
+
+    for (const button of current) {
+      if (!this.pressed.has(button)) edges.push({ button, pressed: true });
+    }
+    for (const button of this.pressed) {
+      if (!current.has(button)) edges.push({ button, pressed: false });
+    }
+
+    this.pressed = current;
+    return edges;
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Key Binding Profiles
+ *
+ * Named sets of bindings - built-in layouts matching popular clients, plus
+ * custom profiles the player makes. Profiles can be exported and imported
+ * as JSON.
+ */
+
+import { DEFAULT_KEY_BINDINGS, GameAction, KeyBinding } from './types';
+
+export interface BindingProfile {
+  id: string;
+  name: string;
+  builtIn: boolean;            // Built-in profiles can't be edited or deleted
+  bindings: KeyBinding[];
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Built-in layouts only set keys - gamepad buttons stay the defaults
+function builtInProfile(id: string, name: string, keys: Record<GameAction, string[]>): BindingProfile {
+  return {
+    id,
+    name,
+    builtIn: true,
+    bindings: DEFAULT_KEY_BINDINGS.map(b => ({ ...b, keys: keys[b.action] })),
+  };
+}
+
+export const BUILT_IN_PROFILES: BindingProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Default',
+    builtIn: true,
+    bindings: DEFAULT_KEY_BINDINGS,
+  },
+  builtInProfile('guideline', 'Guideline', {
+    MOVE_LEFT: ['ArrowLeft', 'Numpad4'],
+    MOVE_RIGHT: ['ArrowRight', 'Numpad6'],
+    SOFT_DROP: ['ArrowDown', 'Numpad2'],
+    HARD_DROP: ['Space', 'Numpad8'],
+    ROTATE_CW: ['ArrowUp', 'KeyX', 'Numpad1', 'Numpad5', 'Numpad9'],
+    ROTATE_CCW: ['KeyZ', 'ControlLeft', 'ControlRight', 'Numpad3', 'Numpad7'],
+    ROTATE_180: [],            // The guideline has no 180 rotation
+    HOLD: ['KeyC', 'ShiftLeft', 'ShiftRight', 'Numpad0'],
+    RESET: ['Escape'],
+    CHANGE_MODE: ['Tab'],
+  }),
+  builtInProfile('jstris', 'Jstris default', {
+    MOVE_LEFT: ['ArrowLeft'],
+    MOVE_RIGHT: ['ArrowRight'],
+    SOFT_DROP: ['ArrowDown'],
+    HARD_DROP: ['Space'],
+    ROTATE_CW: ['ArrowUp'],
+    ROTATE_CCW: ['KeyZ'],
+    ROTATE_180: ['KeyA'],
+    HOLD: ['KeyC'],
+    RESET: ['F4'],
+    CHANGE_MODE: ['Tab'],
+  }),
+  builtInProfile('tetrio', 'TETR.IO default', {
+    MOVE_LEFT: ['ArrowLeft'],
+    MOVE_RIGHT: ['ArrowRight'],
+    SOFT_DROP: ['ArrowDown'],
+    HARD_DROP: ['Space'],
+    ROTATE_CW: ['ArrowUp', 'KeyX'],
+    ROTATE_CCW: ['KeyZ', 'ControlLeft'],
+    ROTATE_180: ['KeyA'],
+    HOLD: ['KeyC', 'ShiftLeft'],
+    RESET: ['KeyR'],
+    CHANGE_MODE: ['Tab'],
+  }),
+  builtInProfile('left-hand', 'Left-hand', {
+    MOVE_LEFT: ['KeyA'],
+    MOVE_RIGHT: ['KeyD'],
+    SOFT_DROP: ['KeyS'],
+    HARD_DROP: ['Space'],
+    ROTATE_CW: ['KeyE'],
+    ROTATE_CCW: ['KeyQ'],
+    ROTATE_180: ['KeyW'],
+    HOLD: ['ShiftLeft'],
+    RESET: ['KeyR'],
+    CHANGE_MODE: ['Tab'],
+  }),
+];
+
+export function createCustomProfile(name: string, bindings: KeyBinding[]): BindingProfile {
+  return {
+    id: `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    builtIn: false,
+    bindings,
+  };
+}
+
+// Bump when the export shape changes
+export const PROFILE_EXPORT_VERSION = 1;
+
+/**
+ * A profile as written to an export file
+ */
+export interface BindingProfileExport {
+  version: number;
+  name: string;
+  bindings: KeyBinding[];
+}
+
+export function exportProfile(profile: BindingProfile): BindingProfileExport {
+  return { version: PROFILE_EXPORT_VERSION, name: profile.name, bindings: profile.bindings };
+}
+
+const GAME_ACTIONS = DEFAULT_KEY_BINDINGS.map(b => b.action);
+
+function isKeyBinding(value: unknown): value is KeyBinding {
+  if (!value || typeof value !== 'object') return false;
+  const binding = value as Partial<KeyBinding>;
+  return GAME_ACTIONS.includes(binding.action as GameAction) &&
+    Array.isArray(binding.keys) &&
+    binding.keys.every(key => typeof key === 'string') &&
+    (binding.button === null || typeof binding.button === 'number');
+}
+
+/**
+ * Check that a value is a stored custom profile
+ */
+export function isBindingProfile(value: unknown): value is BindingProfile {
+  if (!value || typeof value !== 'object') return false;
+  const profile = value as Partial<BindingProfile>;
+  return typeof profile.id === 'string' &&
+    typeof profile.name === 'string' &&
+    Array.isArray(profile.bindings) &&
+    profile.bindings.every(isKeyBinding);
+}
+
+/**
+ * Check that parsed JSON is an exported profile binding every action once
+ */
+export function isBindingProfileExport(value: unknown): value is BindingProfileExport {
+  if (!value || typeof value !== 'object') return false;
+  const profile = value as Partial<BindingProfileExport>;
+  return profile.version === PROFILE_EXPORT_VERSION &&
+    typeof profile.name === 'string' &&
+    Array.isArray(profile.bindings) &&
+    profile.bindings.every(isKeyBinding) &&
+    GAME_ACTIONS.every(action => profile.bindings!.filter(b => b.action === action).length === 1);
+}
+
+/**
+ * A key or gamepad button bound to more than one action
+ */
+export interface BindingConflict {
+  input: string;               // Key code, or the button index as a string
+  device: 'keyboard' | 'gamepad';
+  actions: GameAction[];
+}
+
+/**
+ * Find inputs bound to several actions. Only the first of them would ever
+ * fire, so these need fixing.
+ */
+export function findConflicts(bindings: KeyBinding[]): BindingConflict[] {
+  const keys = new Map<string, GameAction[]>();
+  const buttons = new Map<number, GameAction[]>();
+
+  for (const { action, keys: bound, button } of bindings) {
+    for (const key of new Set(bound)) {
+      keys.set(key, [...(keys.get(key) ?? []), action]);
+    }
+    if (button !== null) {
+      buttons.set(button, [...(buttons.get(button) ?? []), action]);
+    }
+  }
+
+  const conflicts: BindingConflict[] = [];
+  for (const [input, actions] of keys) {
+    if (actions.length > 1) conflicts.push({ input, device: 'keyboard', actions });
+  }
+  for (const [button, actions] of buttons) {
+    if (actions.length > 1) conflicts.push({ input: String(button), device: 'gamepad', actions });
+  }
+  return conflicts;
+}
@@ -0,0 +1,70 @@
+/**
+ * Master Mode personal bests - the longest run without a fault for each
+ * mode, kept in storage
+ */
+
+import type { GameMode, MasterRun } from './game-engine';
+import { getPlayerValue, setPlayerValue } from './players';
+
+export const PERSONAL_BEST_STORAGE_KEY = 'finesse-master-bests';
+
+/**
+ * Best Master Mode run in a mode
+ */
+export interface PersonalBest {
+  pieces: number;              // Correct placements before the fault
+  time: number;                // Run length in ms
+  date: number;                // When the run was played
+}
+
+export type PersonalBests = Partial<Record<GameMode, PersonalBest>>;
+
+/**
+ * Load every mode's personal best
+ */
+export async function loadPersonalBests(): Promise<PersonalBests> {
+  const stored = await getPlayerValue<PersonalBests>(PERSONAL_BEST_STORAGE_KEY);
+  return stored && typeof stored === 'object' ? stored : {};
+}
+
+// More pieces wins; a tie goes to the faster run
+export function isBetterRun(run: PersonalBest, best: PersonalBest | undefined): boolean {
+  if (!best) return run.pieces > 0;
+  return run.pieces > best.pieces || (run.pieces === best.pieces && run.time < best.time);
+}
+
+/**
+ * Record a finished Master Mode run. Returns the mode's personal best
+ * afterwards and whether this run set it - even when storage fails.
+ */
+export async function saveMasterRun(
+  mode: GameMode,
+  run: MasterRun,
+  pieces: number
+): Promise<{ best: PersonalBest | null; isNewBest: boolean }> {
+  const result: PersonalBest = {
+    pieces,
+    time: (run.endedAt ?? run.startedAt) - run.startedAt,
+    date: Date.now(),
+  };
+
+  let bests: PersonalBests;
+  try {
+    bests = await loadPersonalBests();
+  } catch {
+    // Nothing to compare with - the run shows without a best
+    return { best: null, isNewBest: false };
+  }
+
+  if (!isBetterRun(result, bests[mode])) {
+    return { best: bests[mode] ?? null, isNewBest: false };
+  }
+
+  bests[mode] = result;
+  try {
+    await setPlayerValue(PERSONAL_BEST_STORAGE_KEY, bests);
+  } catch {
+    // Not saved, but it's still this session's best
+  }
+  return { best: result, isNewBest: true };
+}
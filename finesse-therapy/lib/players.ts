@@ -0,0 +1,140 @@
+/**
+ * Player Profiles
+ *
+ * Several people can train on one machine, each with their own settings,
+ * key bindings, learning progress, difficulty, rhythm stats, personal
+ * bests, session history and replays. Per-player values are stored under
+ * the player's own key; the default player keeps the plain keys, so data
+ * saved before profiles existed belongs to it.
+ */
+
+import { getRecordKey, getValue, getValueKeys, removeValue, setValue } from './storage';
+
+export interface Player {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface StoredPlayers {
+  activePlayerId: string;
+  players: Player[];
+}
+
+export const PLAYERS_STORAGE_KEY = 'finesse-players';
+
+export const DEFAULT_PLAYER_ID = 'default';
+
+export const DEFAULT_PLAYERS: StoredPlayers = {
+  activePlayerId: DEFAULT_PLAYER_ID,
+  players: [{ id: DEFAULT_PLAYER_ID, name: 'Player 1', createdAt: 0 }],
+};
+
+/**
+ * Load the player list (just the default player when there is none)
+ */
+export async function loadPlayers(): Promise<StoredPlayers> {
+  const stored = await getValue<StoredPlayers>(PLAYERS_STORAGE_KEY);
+  if (!stored || !Array.isArray(stored.players) || !stored.players.some(p => p.id === DEFAULT_PLAYER_ID)) {
+    return DEFAULT_PLAYERS;
+  }
+  // A deleted active player falls back to the default
+  return stored.players.some(p => p.id === stored.activePlayerId)
+    ? stored
+    : { ...stored, activePlayerId: DEFAULT_PLAYER_ID };
+}
+
+export function savePlayers(players: StoredPlayers): Promise<void> {
+  return setValue(PLAYERS_STORAGE_KEY, players);
+}
+
+export function createPlayer(name: string): Player {
+  return {
+    id: `player-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    createdAt: Date.now(),
+  };
+}
+
+// Resolved once per page load, then replaced on every switch
+let activePlayerId: Promise<string> | null = null;
+
+/**
+ * The player per-player values currently belong to
+ */
+export function getActivePlayerId(): Promise<string> {
+  activePlayerId ??= loadPlayers().then(players => players.activePlayerId);
+  return activePlayerId;
+}
+
+/**
+ * Make a player the one per-player values are read from and written to.
+ * Providers must remount afterwards to load that player's data.
+ */
+export function setActivePlayerId(id: string) {
+  activePlayerId = Promise.resolve(id);
+}
+
+function playerKey(key: string, playerId: string): string {
+  return playerId === DEFAULT_PLAYER_ID ? key : `${key}:${playerId}`;
+}
+
+/**
+ * Read a value of the active player, or of the given one
+ */
+export async function getPlayerValue<T>(key: string, playerId?: string): Promise<T | undefined> {
+  return getValue<T>(playerKey(key, playerId ?? await getActivePlayerId()));
+}
+
+/**
+ * Store a value for the active player, or for the given one
+ */
+export async function setPlayerValue(key: string, value: unknown, playerId?: string): Promise<void> {
+  return setValue(playerKey(key, playerId ?? await getActivePlayerId()), value);
+}
+
+export async function removePlayerValue(key: string): Promise<void> {
+  return removeValue(playerKey(key, await getActivePlayerId()));
+}
+
+/**
+ * Read every record the active player, or the given one, keeps under a key.
+ * Records are stored one per key, in no particular order.
+ */
+export async function getPlayerRecords<T>(key: string, playerId?: string): Promise<T[]> {
+  const id = playerId ?? await getActivePlayerId();
+  const prefix = `${key}:`;
+  const suffix = id === DEFAULT_PLAYER_ID ? '' : `:${id}`;
+  // Record IDs are encoded, so only a player's suffix adds another colon
+  const keys = (await getValueKeys()).filter(storedKey =>
+    storedKey.startsWith(prefix) &&
+    storedKey.endsWith(suffix) &&
+    !storedKey.slice(prefix.length, storedKey.length - suffix.length).includes(':')
+  );
+  const records: (T | undefined)[] = await Promise.all(keys.map(storedKey => getValue<T>(storedKey)));
+  return records.filter((record): record is T => record !== undefined);
+}
+
+/**
+ * Store one record for the active player, or for the given one, leaving
+ * their other records under the key untouched
+ */
+export async function setPlayerRecord(key: string, id: string, record: unknown, playerId?: string): Promise<void> {
+  return setValue(playerKey(getRecordKey(key, id), playerId ?? await getActivePlayerId()), record);
+}
+
+export async function removePlayerRecord(key: string, id: string): Promise<void> {
+  return removeValue(playerKey(getRecordKey(key, id), await getActivePlayerId()));
+}
+
+/**
+ * Remove every value stored for a player. The default player can't be
+ * deleted, so its plain keys are never touched.
+ */
+export async function deletePlayerData(playerId: string): Promise<void> {
+  if (playerId === DEFAULT_PLAYER_ID) return;
+  const suffix = `:${playerId}`;
+  for (const key of await getValueKeys()) {
+    if (key.endsWith(suffix)) await removeValue(key);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Piece Randomizers
+ *
+ * Seedable PRNG and the piece randomizers built on it. Identical seeds
+ * produce identical piece orders, so runs can be shared and compared.
+ */
+
+import type { TetrominoType } from './types';
+
+export type RandomizerType = 'BAG_7' | 'BAG_14' | 'RANDOM' | 'TGM' | 'NES';
+
+export const RANDOMIZER_TYPES: RandomizerType[] = ['BAG_7', 'BAG_14', 'RANDOM', 'TGM', 'NES'];
+
+// Randomizer display names
+export const RANDOMIZER_NAMES: Record<RandomizerType, string> = {
+  'BAG_7': '7-Bag',
+  'BAG_14': '14-Bag',
+  'RANDOM': 'Pure Random',
+  'TGM': 'TGM (History 4)',
+  'NES': 'Classic NES',
+};
+
+export const ALL_PIECES: TetrominoType[] = ['I', 'O', 'T', 'S', 'Z', 'J', 'L'];
+
+/**
+ * Random number generator returning floats in [0, 1)
+ */
+export type Random = () => number;
+
+/**
+ * Produces the next piece of a sequence
+ */
+export interface Randomizer {
+  next: () => TetrominoType;
+}
+
+/**
+ * Mulberry32 PRNG - small, fast and good enough for piece generation
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hash a seed string to a 32-bit PRNG seed (FNV-1a)
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Generate a short shareable seed
+ */
+export function randomSeed(): string {
+  return Math.floor(Math.random() * 0x100000000).toString(36).toUpperCase();
+}
+
+function pick<T>(items: T[], random: Random): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function shuffle<T>(items: T[], random: Random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Bag of every piece `copies` times, refilled when empty
+function createBagRandomizer(pieces: TetrominoType[], copies: number, random: Random): Randomizer {
+  let bag: TetrominoType[] = [];
+  return {
+    next: () => {
+      if (bag.length === 0) {
+        bag = shuffle(Array.from({ length: copies }, () => pieces).flat(), random);
+      }
+      return bag.shift()!;
+    },
+  };
+}
+
+// TGM1: up to 4 tries to avoid the last 4 pieces; never opens with S, Z or O
+function createTgmRandomizer(pieces: TetrominoType[], random: Random): Randomizer {
+  const history: TetrominoType[] = ['Z', 'Z', 'Z', 'Z'];
+  let first = true;
+  return {
+    next: () => {
+      let piece: TetrominoType;
+      if (first) {
+        first = false;
+        const openers = pieces.filter(p => p !== 'S' && p !== 'Z' && p !== 'O');
+        piece = pick(openers.length > 0 ? openers : pieces, random);
+      } else {
+        piece = pick(pieces, random);
+        for (let roll = 1; roll < 4 && history.includes(piece); roll++) {
+          piece = pick(pieces, random);
+        }
+      }
+      history.shift();
+      history.push(piece);
+      return piece;
+    },
+  };
+}
+
+// NES: roll one extra slot; on that slot or a repeat, reroll once
+function createNesRandomizer(pieces: TetrominoType[], random: Random): Randomizer {
+  let last: TetrominoType | null = null;
+  return {
+    next: () => {
+      const index = Math.floor(random() * (pieces.length + 1));
+      let piece = pieces[index];
+      if (index === pieces.length || piece === last) {
+        piece = pick(pieces, random);
+      }
+      last = piece;
+      return piece;
+    },
+  };
+}
+
+/**
+ * Create a randomizer over a piece pool
+ */
+export function createRandomizer(
+  type: RandomizerType,
+  pieces: TetrominoType[],
+  random: Random
+): Randomizer {
+  switch (type) {
+    case 'BAG_14':
+      return createBagRandomizer(pieces, 2, random);
+    case 'RANDOM':
+      return { next: () => pick(pieces, random) };
+    case 'TGM':
+      return createTgmRandomizer(pieces, random);
+    case 'NES':
+      return createNesRandomizer(pieces, random);
+    case 'BAG_7':
+    default:
+      return createBagRandomizer(pieces, 1, random);
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Replays
+ *
+ * Compact session recordings - seed, settings snapshot and timestamped
+ * inputs - and a player that re-runs them through the headless engine.
+ * The engine is deterministic for a seed and input stream, so playback
+ * reproduces the session, including every finesse verdict.
+ */
+
+import type { GameAction, TetrominoType } from './types';
+import type { FinesseMove } from './finesse-data';
+import type { FinesseVerdict } from './finesse-grader';
+import {
+  GameEngine,
+  GameMode,
+  DEFAULT_HANDLING,
+  HandlingSettings,
+  LearningTarget,
+  EngineEvent,
+} from './game-engine';
+import { getActivePlayerId, getPlayerRecords, removePlayerRecord, setPlayerRecord } from './players';
+
+export const REPLAY_VERSION = 1;
+
+export const REPLAYS_STORAGE_KEY = 'finesse-replays';
+
+// Engine calls the frontend makes outside of key input:
+// RESET_PIECE resets the piece (flag = reset combo), REJECT_DROP records a
+// LEARNING drop that was judged wrong before it locked, SETTINGS switches to
+// the replay's next settings change
+export type ReplayAction = GameAction | 'RESET_PIECE' | 'REJECT_DROP' | 'SETTINGS';
+
+// [ms since start, action, 1 = key down / 0 = key up (or action flag)]
+export type ReplayEvent = [number, ReplayAction, 0 | 1];
+
+export interface Replay {
+  version: number;
+  id: string;
+  createdAt: number;
+  mode: GameMode;
+  seed: string;
+  settings: HandlingSettings;
+  bindingsVersion: number;
+  learningTargets: LearningTarget[];  // LEARNING picks in spawn order
+  settingsChanges?: HandlingSettings[]; // In SETTINGS event order - missing on older replays
+  events: ReplayEvent[];
+  duration: number;
+  pieces: number;                     // Locked pieces, for listings
+}
+
+/**
+ * A graded placement found while playing a replay
+ */
+export interface ReplayPiece {
+  time: number;
+  type: TetrominoType;
+  moves: FinesseMove[];
+  verdict: FinesseVerdict;
+  rejected: boolean;    // LEARNING drop rejected before locking
+}
+
+/**
+ * Records one session, created right after the engine's start event
+ */
+export class ReplayRecorder {
+  readonly replay: Replay;
+  // The player when recording started - saved for them even if another
+  // player is active by the time it ends
+  readonly playerId: Promise<string>;
+  private startTime: number;
+
+  constructor(engine: GameEngine, bindingsVersion: number) {
+    const createdAt = Date.now();
+    this.playerId = getActivePlayerId();
+    this.startTime = engine.getTime();
+    this.replay = {
+      version: REPLAY_VERSION,
+      id: createdAt.toString(36),
+      createdAt,
+      mode: engine.state.mode,
+      seed: engine.state.seed,
+      settings: { ...engine.getSettings(), seed: engine.state.seed },
+      bindingsVersion,
+      learningTargets: [],
+      settingsChanges: [],
+      events: [],
+      duration: 0,
+      pieces: 0,
+    };
+  }
+
+  /**
+   * Record an action at an engine time (see GameEngine.getTime)
+   */
+  record(action: ReplayAction, flag: boolean, timestamp: number) {
+    const time = Math.max(timestamp - this.startTime, this.replay.duration);
+    this.replay.events.push([time, action, flag ? 1 : 0]);
+    this.replay.duration = time;
+  }
+
+  /**
+   * Record a change of settings during the session, at an engine time
+   */
+  recordSettings(settings: HandlingSettings, timestamp: number) {
+    this.replay.settingsChanges!.push({ ...settings, seed: this.replay.seed });
+    this.record('SETTINGS', false, timestamp);
+  }
+
+  /**
+   * Track engine events that playback can't regenerate on its own
+   */
+  recordEvents(events: EngineEvent[]) {
+    for (const event of events) {
+      if (event.type === 'spawn' && event.learningTarget) {
+        this.replay.learningTargets.push(event.learningTarget);
+      } else if (event.type === 'lock') {
+        this.replay.pieces++;
+      }
+    }
+  }
+}
+
+/**
+ * Plays a replay through a fresh engine with seeking
+ */
+export class ReplayPlayer {
+  readonly replay: Replay;
+  readonly pieces: ReplayPiece[];
+  engine: GameEngine;
+  time = 0;
+  private cursor = 0;
+  private learningIndex = 0;
+  private settingsIndex = 0;
+  private collected: ReplayPiece[] = [];
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+    // Run once to the end to collect every graded piece for the timeline
+    this.engine = this.createEngine();
+    this.seek(replay.duration);
+    this.pieces = this.collected;
+    this.reset();
+  }
+
+  /**
+   * Move playback to `time` (ms), re-simulating from the start when going back
+   */
+  seek(time: number) {
+    time = Math.max(0, Math.min(time, this.replay.duration));
+    if (time < this.time) this.reset();
+
+    // The engine simulates every millisecond itself, so stepping to each
+    // event is enough to reproduce the session
+    const { events } = this.replay;
+    while (this.cursor < events.length && events[this.cursor][0] <= time) {
+      const event = events[this.cursor++];
+      this.time = event[0];
+      this.apply(event);
+    }
+    this.time = time;
+    this.collect(this.engine.step(null, time));
+  }
+
+  private reset() {
+    this.engine = this.createEngine();
+    this.time = 0;
+    this.cursor = 0;
+    this.collected = [];
+  }
+
+  private createEngine(): GameEngine {
+    const { replay } = this;
+    this.learningIndex = 0;
+    this.settingsIndex = 0;
+    const engine = new GameEngine({
+      mode: replay.mode,
+      // Settings added after the replay was recorded keep their defaults
+      settings: { ...DEFAULT_HANDLING, ...replay.settings, seed: replay.seed },
+      selectLearningTarget: () => replay.learningTargets[this.learningIndex++] ?? null,
+    });
+    engine.step({ action: 'RESET', isKeyDown: true }, 0);
+    return engine;
+  }
+
+  private apply([time, action, flag]: ReplayEvent) {
+    const { engine, replay } = this;
+    if (action === 'RESET_PIECE') {
+      this.collect(engine.step(null, time));
+      engine.resetPiece(flag === 1);
+    } else if (action === 'REJECT_DROP') {
+      this.collect(engine.step(null, time));
+      const verdict = engine.gradeCurrentPlacement();
+      engine.recordFault(verdict);
+      this.collected.push({
+        time,
+        type: engine.state.currentPiece?.type ?? 'I',
+        moves: engine.state.lastResult?.moves ?? [],
+        verdict,
+        rejected: true,
+      });
+    } else if (action === 'SETTINGS') {
+      this.collect(engine.step(null, time));
+      const settings = replay.settingsChanges?.[this.settingsIndex++];
+      if (settings) engine.configure({ settings: { ...DEFAULT_HANDLING, ...settings } });
+    } else {
+      this.collect(engine.step({ action, isKeyDown: flag === 1 }, time));
+    }
+  }
+
+  private collect(events: EngineEvent[]) {
+    for (const event of events) {
+      if (event.type === 'lock') {
+        this.collected.push({
+          time: this.time,
+          type: event.piece.type,
+          moves: event.moves,
+          verdict: event.verdict,
+          rejected: false,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Load the active player's stored replays, newest first. Ones this version
+ * can't play stay stored, but aren't listed.
+ */
+export async function loadReplays(): Promise<Replay[]> {
+  const replays = await getPlayerRecords<unknown>(REPLAYS_STORAGE_KEY);
+  return replays.filter(isReplay).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Store a replay for the active player, or for the given one - kept until
+ * deleted
+ */
+export function saveReplay(replay: Replay, playerId?: string): Promise<void> {
+  return setPlayerRecord(REPLAYS_STORAGE_KEY, replay.id, replay, playerId);
+}
+
+export function deleteReplay(id: string): Promise<void> {
+  return removePlayerRecord(REPLAYS_STORAGE_KEY, id);
+}
+
+/**
+ * Check that parsed JSON is a replay this version can play
+ */
+export function isReplay(value: unknown): value is Replay {
+  if (!value || typeof value !== 'object') return false;
+  const replay = value as Partial<Replay>;
+  return replay.version === REPLAY_VERSION &&
+    typeof replay.id === 'string' &&
+    typeof replay.seed === 'string' &&
+    typeof replay.mode === 'string' &&
+    typeof replay.settings === 'object' &&
+    Array.isArray(replay.events) &&
+    Array.isArray(replay.learningTargets);
+}
@@ -0,0 +1,480 @@
+/**
+ * Pattern Scheduling
+ *
+ * The scheduler interface the learning system depends on, plus the pattern
+ * selection and mastery rules shared by every algorithm. Schedulers only
+ * decide when a pattern is reviewed next; accuracy and mastery are tracked
+ * the same way for all of them, so cards can move between algorithms.
+ *
+ * Reviews are spaced two ways. Across sessions they run on the wall clock,
+ * by the scheduler's interval in days. Within a session, patterns reviewed
+ * in it come back after a few global repetitions for drilling - a fixed
+ * spacing of its own, not the interval.
+ */
+
+import type { TetrominoType } from './types';
+import { sm2Scheduler } from './sm2';
+import { fsrsScheduler } from './fsrs';
+
+export type SchedulerType = 'SM2' | 'FSRS';
+
+export const SCHEDULER_TYPES: SchedulerType[] = ['SM2', 'FSRS'];
+
+// Scheduler display names
+export const SCHEDULER_NAMES: Record<SchedulerType, string> = {
+  'SM2': 'SM-2',
+  'FSRS': 'FSRS',
+};
+
+/**
+ * A pattern's learning state - the fields every scheduler keeps
+ */
+export interface Card {
+  patternId: string;           // Format: "Z_0_0" (piece_column_rotation)
+  successCount: number;        // Total correct attempts
+  failCount: number;           // Total incorrect attempts
+  lastReviewed: number;        // Timestamp of last review
+  nextReviewAt: number;        // Next review within the session (in repetition count)
+  dueAt: number;               // Scheduled next review (timestamp)
+  lapses: number;              // Failed reviews since the pattern was last cleared
+  leech: boolean;              // Keeps failing - needs a remediation drill
+}
+
+/**
+ * Review quality
+ * 0 = Wrong placement or finesse
+ * 1 = Ran out of time without dropping
+ * 2 = Correct but too slow
+ * 3 = Correct but difficult
+ * 4 = Correct
+ * 5 = Perfect recall
+ */
+export type Quality = 0 | 1 | 2 | 3 | 4 | 5;
+
+// Lowest quality that counts as a successful review
+export const PASSING_QUALITY = 3;
+
+// Lowest quality where the placement was right. A correct but too slow
+// review comes back soon like a failed one, but isn't a failure or a lapse.
+export const RECALLED_QUALITY = 2;
+
+/**
+ * Rhythm judgment of an attempt (see the rhythm system's HitJudgment)
+ */
+export type ReviewJudgment = 'PERFECT' | 'GREAT' | 'GOOD' | 'TOO_SLOW' | 'MISS';
+
+/**
+ * Everything known about an attempt that goes into its quality
+ */
+export interface ReviewResult {
+  correct: boolean;            // Placement and finesse were correct
+  judgment?: ReviewJudgment;   // Timing judgment, when the rhythm system ran
+  keyCount?: number;           // Keys pressed, including the drop
+  optimalKeyCount?: number;    // Keys of the optimal sequence, including the drop
+}
+
+const JUDGMENT_QUALITY: Record<ReviewJudgment, Quality> = {
+  PERFECT: 5,
+  GREAT: 4,
+  GOOD: 3,
+  TOO_SLOW: 2,
+  MISS: 0,
+};
+
+/**
+ * Grade an attempt 0-5 from correctness, timing and input efficiency.
+ * Correct answers rate by their timing judgment, less one for extra keys
+ * (never below passing); without a judgment a correct answer is a 4.
+ */
+export function getReviewQuality(result: ReviewResult): Quality {
+  const { correct, judgment, keyCount, optimalKeyCount } = result;
+  if (!correct) {
+    return judgment === 'TOO_SLOW' ? 1 : 0;
+  }
+
+  const quality = judgment ? JUDGMENT_QUALITY[judgment] : 4;
+  if (quality < PASSING_QUALITY) return quality;
+
+  const extraKeys = keyCount !== undefined && optimalKeyCount !== undefined
+    ? keyCount - optimalKeyCount
+    : 0;
+  return (extraKeys > 0 ? Math.max(PASSING_QUALITY, quality - 1) : quality) as Quality;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Wall-clock delay before a pattern that wasn't recalled comes back
+const FAILED_REVIEW_DELAY_MS = 10 * MINUTE_MS;
+// ...and before one that was placed correctly but too slowly
+const SLOW_REVIEW_DELAY_MS = HOUR_MS;
+
+/**
+ * Get when a reviewed card is next due on the wall clock. Passed reviews
+ * wait the scheduler's interval in days; failed ones come back within the
+ * hour.
+ */
+export function getDueAt(quality: Quality, interval: number, now: number): number {
+  if (quality >= PASSING_QUALITY) return now + interval * DAY_MS;
+  return now + (quality === 2 ? SLOW_REVIEW_DELAY_MS : FAILED_REVIEW_DELAY_MS);
+}
+
+/**
+ * Days between two timestamps
+ */
+export function getElapsedDays(from: number, to: number): number {
+  return Math.max(0, to - from) / DAY_MS;
+}
+
+// Repetitions before a pattern reviewed this session comes back in it - for
+// a passed review, one that wasn't recalled, and one placed too slowly
+const PASSED_REVIEW_REPETITIONS = 10;
+const FAILED_REVIEW_REPETITIONS = 2;
+const SLOW_REVIEW_REPETITIONS = 4;
+
+/**
+ * Get the global repetition count at which a reviewed card comes back
+ * within the session
+ */
+export function getNextReviewAt(quality: Quality, globalRepetitionCount: number): number {
+  if (quality >= PASSING_QUALITY) return globalRepetitionCount + PASSED_REVIEW_REPETITIONS;
+  return globalRepetitionCount + (quality === 2 ? SLOW_REVIEW_REPETITIONS : FAILED_REVIEW_REPETITIONS);
+}
+
+// Failed reviews before a pattern is flagged as a leech
+export const LEECH_LAPSES = 5;
+// Correct drops in a row that clear a leech's remediation drill
+export const DRILL_CLEAR_STREAK = 3;
+
+/**
+ * Count a review's lapse, flagging the card as a leech once it has failed
+ * too often
+ */
+export function updateLapses(card: Card, recalled: boolean): Pick<Card, 'lapses' | 'leech'> {
+  const lapses = recalled ? card.lapses : card.lapses + 1;
+  return { lapses, leech: card.leech || lapses >= LEECH_LAPSES };
+}
+
+/**
+ * Clear a card's leech flag after a completed remediation drill
+ */
+export function clearLeech<C extends Card>(card: C): C {
+  return { ...card, lapses: 0, leech: false };
+}
+
+/**
+ * A spaced repetition algorithm
+ */
+export interface Scheduler<C extends Card = Card> {
+  type: SchedulerType;
+  // Create the card for a pattern's first review
+  initCard(patternId: string, globalRepetitionCount: number): C;
+  // Update a card with a review of the given quality
+  reviewCard(card: C, quality: Quality, globalRepetitionCount: number): C;
+  // Convert a card kept by another scheduler, preserving its schedule
+  migrateCard(card: Card): C;
+}
+
+/**
+ * Get the scheduler implementation for a type
+ */
+export function getScheduler(type: SchedulerType): Scheduler {
+  switch (type) {
+    case 'FSRS':
+      return fsrsScheduler;
+    case 'SM2':
+    default:
+      return sm2Scheduler;
+  }
+}
+
+/**
+ * Convert every card to another scheduler
+ */
+export function migrateCards(cards: Record<string, Card>, type: SchedulerType): Record<string, Card> {
+  const scheduler = getScheduler(type);
+  const migrated: Record<string, Card> = {};
+  for (const [id, card] of Object.entries(cards)) {
+    migrated[id] = scheduler.migrateCard(card);
+  }
+  return migrated;
+}
+
+/**
+ * Session record for history tracking, saved as the session goes
+ */
+export interface SessionRecord {
+  startedAt?: number;          // Missing on records saved only once the session ended
+  timestamp: number;           // Last attempt
+  finished?: boolean;          // False while the session is still going - missing on older, finished records
+  totalAttempts: number;
+  correctAttempts: number;
+  accuracy: number;
+  patternsReviewed: number;
+  newPatternsMastered: number;
+  rotations?: Record<string, SessionTally>;  // By rotation ID - missing on older records
+}
+
+/**
+ * Attempts at one piece rotation in a session
+ */
+export interface SessionTally {
+  attempts: number;
+  correct: number;
+}
+
+/**
+ * Create a rotation ID from piece type and rotation
+ */
+export function createRotationId(piece: TetrominoType, rotation: number): string {
+  return `${piece}_${rotation}`;
+}
+
+// Mastery threshold (accuracy percentage)
+export const MASTERY_THRESHOLD = 0.90;
+// Minimum attempts before a pattern can be considered mastered
+export const MIN_ATTEMPTS_FOR_MASTERY = 5;
+// Review interval range for mastered patterns (in repetitions)
+export const MASTERED_REVIEW_MIN = 10;
+export const MASTERED_REVIEW_MAX = 20;
+
+/**
+ * Create a pattern ID from piece type, column, and rotation
+ */
+export function createPatternId(piece: TetrominoType, column: number, rotation: number): string {
+  return `${piece}_${column}_${rotation}`;
+}
+
+/**
+ * Parse a pattern ID back to its components
+ */
+export function parsePatternId(id: string): { piece: TetrominoType; column: number; rotation: number } {
+  const [piece, col, rot] = id.split('_');
+  return {
+    piece: piece as TetrominoType,
+    column: parseInt(col, 10),
+    rotation: parseInt(rot, 10),
+  };
+}
+
+/**
+ * Get the accuracy of a card (0-1)
+ */
+export function getCardAccuracy(card: Card): number {
+  const total = card.successCount + card.failCount;
+  if (total === 0) return 0;
+  return card.successCount / total;
+}
+
+/**
+ * Check if a card is considered "mastered"
+ */
+export function isCardMastered(card: Card): boolean {
+  const total = card.successCount + card.failCount;
+  if (total < MIN_ATTEMPTS_FOR_MASTERY) return false;
+  return getCardAccuracy(card) >= MASTERY_THRESHOLD;
+}
+
+/**
+ * Check if a card is due for review - by the wall clock, or by repetitions
+ * when it was already reviewed this session
+ */
+export function isCardDue(
+  card: Card,
+  globalRepetitionCount: number,
+  now: number,
+  sessionStart: number
+): boolean {
+  if (card.dueAt <= now) return true;
+  return card.lastReviewed >= sessionStart && card.nextReviewAt <= globalRepetitionCount;
+}
+
+/**
+ * Get cards that are due for review
+ */
+export function getDueCards(
+  cards: Record<string, Card>,
+  globalRepetitionCount: number,
+  now: number,
+  sessionStart: number
+): Card[] {
+  return Object.values(cards).filter(card => isCardDue(card, globalRepetitionCount, now, sessionStart));
+}
+
+/**
+ * Count the cards due on the wall clock before the end of the day
+ */
+export function getDueTodayCount(cards: Record<string, Card>, now: number): number {
+  const endOfDay = new Date(now);
+  endOfDay.setHours(24, 0, 0, 0);
+  return Object.values(cards).filter(card => card.dueAt < endOfDay.getTime()).length;
+}
+
+/**
+ * Get all unmastered cards
+ */
+export function getUnmasteredCards(cards: Record<string, Card>): Card[] {
+  return Object.values(cards).filter(card => !isCardMastered(card));
+}
+
+/**
+ * Get all cards flagged as leeches
+ */
+export function getLeechCards(cards: Record<string, Card>): Card[] {
+  return Object.values(cards).filter(card => card.leech);
+}
+
+/**
+ * Get all mastered cards
+ */
+export function getMasteredCards(cards: Record<string, Card>): Card[] {
+  return Object.values(cards).filter(card => isCardMastered(card));
+}
+
+/**
+ * How the selector balances weak and new patterns (from the difficulty tier)
+ */
+export interface PatternSelectionParams {
+  weakPatternBias: number;     // Chance of picking the weakest candidate over a random one (0-1)
+  newPatternRate: number;      // Chance of introducing a new pattern while others are unmastered (0-1)
+}
+
+// Always drill the weakest pattern and introduce new patterns straight away
+export const DEFAULT_SELECTION_PARAMS: PatternSelectionParams = {
+  weakPatternBias: 1,
+  newPatternRate: 1,
+};
+
+// Pick the lowest accuracy card with probability `weakPatternBias`,
+// otherwise any of them
+function pickCard(candidates: Card[], weakPatternBias: number): Card {
+  if (Math.random() < weakPatternBias) {
+    return candidates.reduce((weakest, card) =>
+      getCardAccuracy(card) < getCardAccuracy(weakest) ? card : weakest
+    );
+  }
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
+
+/**
+ * Select the next pattern to practice from the scheduled reviews
+ *
+ * Priority:
+ * 1. Due cards, by clock or this session's repetitions (weighted to lowest accuracy)
+ * 2. Unreviewed patterns, in the order given - at the new pattern rate while
+ *    other patterns are unmastered, otherwise always
+ * 3. Unmastered cards (weighted to lowest accuracy)
+ * 4. Mastered cards due for review (10-20 interval)
+ */
+export function selectNextPattern(
+  cards: Record<string, Card>,
+  allPatternIds: string[],
+  globalRepetitionCount: number,
+  lastMasteredReview: number,
+  now: number,
+  sessionStart: number,
+  params: PatternSelectionParams = DEFAULT_SELECTION_PARAMS
+): string | null {
+  // 1. Check for due cards
+  const dueCards = getDueCards(cards, globalRepetitionCount, now, sessionStart);
+  if (dueCards.length > 0) {
+    // Favour struggling patterns
+    return pickCard(dueCards, params.weakPatternBias).patternId;
+  }
+
+  // 2. Check for unreviewed patterns (introduce new patterns)
+  const unreviewed = allPatternIds.find(id => !cards[id]);
+  const unmastered = getUnmasteredCards(cards);
+  if (unreviewed && (unmastered.length === 0 || Math.random() < params.newPatternRate)) {
+    // Introduce one new pattern at a time
+    return unreviewed;
+  }
+
+  // 3. Prioritize unmastered cards
+  if (unmastered.length > 0) {
+    return pickCard(unmastered, params.weakPatternBias).patternId;
+  }
+
+  // 4. All patterns mastered - review mastered at intervals
+  const mastered = getMasteredCards(cards);
+  if (mastered.length > 0) {
+    const reviewInterval = MASTERED_REVIEW_MIN + Math.floor(Math.random() * (MASTERED_REVIEW_MAX - MASTERED_REVIEW_MIN));
+    if (globalRepetitionCount - lastMasteredReview >= reviewInterval) {
+      // Select random mastered pattern for review
+      return mastered[Math.floor(Math.random() * mastered.length)].patternId;
+    }
+  }
+
+  // Fallback: random pattern
+  if (allPatternIds.length > 0) {
+    return allPatternIds[Math.floor(Math.random() * allPatternIds.length)];
+  }
+
+  return null;
+}
+
+/**
+ * Calculate overall mastery statistics
+ */
+export function calculateMasteryStats(cards: Record<string, Card>, totalPatterns: number): {
+  masteredCount: number;
+  inProgressCount: number;
+  notStartedCount: number;
+  overallAccuracy: number;
+  totalAttempts: number;
+} {
+  const cardList = Object.values(cards);
+  const masteredCount = cardList.filter(isCardMastered).length;
+  const inProgressCount = cardList.length - masteredCount;
+  const notStartedCount = totalPatterns - cardList.length;
+
+  let totalSuccess = 0;
+  let totalFail = 0;
+  cardList.forEach(card => {
+    totalSuccess += card.successCount;
+    totalFail += card.failCount;
+  });
+
+  const totalAttempts = totalSuccess + totalFail;
+  const overallAccuracy = totalAttempts > 0 ? totalSuccess / totalAttempts : 0;
+
+  return {
+    masteredCount,
+    inProgressCount,
+    notStartedCount,
+    overallAccuracy,
+    totalAttempts,
+  };
+}
+
+/**
+ * Identify a session record - older records only have their end time
+ */
+export function getSessionRecordKey(session: SessionRecord): number {
+  return session.startedAt ?? session.timestamp;
+}
+
+/**
+ * Create the record of a session in progress
+ */
+export function createSessionRecord(
+  startedAt: number,
+  totalAttempts: number,
+  correctAttempts: number,
+  patternsReviewed: number,
+  newPatternsMastered: number,
+  rotations: Record<string, SessionTally>
+): SessionRecord {
+  return {
+    startedAt,
+    timestamp: Date.now(),
+    finished: false,
+    totalAttempts,
+    correctAttempts,
+    accuracy: totalAttempts > 0 ? correctAttempts / totalAttempts : 0,
+    patternsReviewed,
+    newPatternsMastered,
+    rotations,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Practice Session History
+ *
+ * Rhythm scores and difficulty tier changes for each visit, kept for each
+ * player. A session lasts from one page load to the next, and is only
+ * stored once something happens in it.
+ */
+
+import type { DifficultyTier } from '@/hooks/use-difficulty-system';
+import type { HitJudgment } from '@/hooks/use-rhythm-system';
+import { getActivePlayerId, getPlayerRecords, removePlayerRecord, setPlayerRecord } from './players';
+
+/**
+ * A difficulty tier change during a session
+ */
+export interface TierChange {
+  at: number;                  // Timestamp
+  from: DifficultyTier;
+  to: DifficultyTier;
+}
+
+/**
+ * Rhythm results of a session
+ */
+export interface RhythmSessionStats {
+  score: number;
+  maxCombo: number;
+  judgments: Record<HitJudgment, number>;
+}
+
+export interface SessionHistoryEntry {
+  startedAt: number;
+  tierChanges: TierChange[];
+  rhythm: RhythmSessionStats | null;
+}
+
+export const SESSION_HISTORY_STORAGE_KEY = 'finesse-session-history';
+
+// Start of this visit's session
+export const SESSION_STARTED_AT = Date.now();
+
+function createSession(): SessionHistoryEntry {
+  return { startedAt: SESSION_STARTED_AT, tierChanges: [], rhythm: null };
+}
+
+// This visit's session as last stored, and the player it belongs to. A
+// player who switches in during the visit starts their own.
+let currentSession = createSession();
+let currentSessionPlayerId: string | null = null;
+
+// Saves run one at a time, so the last update is the one stored
+let saving = Promise.resolve();
+
+function isSessionHistoryEntry(value: unknown): value is SessionHistoryEntry {
+  return !!value && typeof value === 'object' && typeof (value as SessionHistoryEntry).startedAt === 'number';
+}
+
+/**
+ * Load the active player's stored sessions, newest first
+ */
+export async function loadSessionHistory(): Promise<SessionHistoryEntry[]> {
+  const sessions = await getPlayerRecords<unknown>(SESSION_HISTORY_STORAGE_KEY);
+  return sessions.filter(isSessionHistoryEntry).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Replace the active player's sessions
+ */
+export async function saveSessionHistory(sessions: SessionHistoryEntry[]): Promise<void> {
+  const kept = new Set(sessions.map(session => session.startedAt));
+  for (const session of await loadSessionHistory()) {
+    if (!kept.has(session.startedAt)) {
+      await removePlayerRecord(SESSION_HISTORY_STORAGE_KEY, String(session.startedAt));
+    }
+  }
+  await Promise.all(sessions.map(session =>
+    setPlayerRecord(SESSION_HISTORY_STORAGE_KEY, String(session.startedAt), session)
+  ));
+}
+
+/**
+ * Update this visit's session, creating it on first use
+ */
+export function updateCurrentSession(update: Partial<Omit<SessionHistoryEntry, 'startedAt'>>) {
+  saving = saving
+    .then(async () => {
+      const playerId = await getActivePlayerId();
+      if (playerId !== currentSessionPlayerId) {
+        currentSession = createSession();
+        currentSessionPlayerId = playerId;
+      }
+      currentSession = { ...currentSession, ...update };
+      await setPlayerRecord(SESSION_HISTORY_STORAGE_KEY, String(currentSession.startedAt), currentSession, playerId);
+    })
+    // Saving is best effort
+    .catch(() => undefined);
+}
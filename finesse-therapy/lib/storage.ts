@@ -0,0 +1,355 @@
+/**
+ * Persistent Storage
+ *
+ * One IndexedDB database holds everything the app saves - settings, key
+ * bindings, learning progress, session history, replays - as values in a
+ * key-value store. The schema is versioned - each version has a migration,
+ * run in order when an older database is opened.
+ *
+ * Where IndexedDB isn't available (some private browsing modes, old
+ * WebViews) the same API falls back to localStorage. Once the database has
+ * opened, though, the data lives there - failing to open it later is an
+ * error, retried and then reported rather than answered from localStorage.
+ * For the rest of the page load reads come back empty and writes are
+ * dropped, so the defaults used meanwhile never overwrite the saved data.
+ * The theme stays in localStorage regardless, since it has to be read
+ * before first paint.
+ */
+
+const DB_NAME = 'finesse-therapy';
+
+// Stores session history and replays had before they became values of
+// each player, and the field each record is keyed by
+type RecordStore = 'sessions' | 'replays';
+
+const RECORD_KEY_PATHS: Record<RecordStore, string> = {
+  sessions: 'startedAt',
+  replays: 'id',
+};
+
+// Keys the records are stored under, each record with its own key after
+// it - the default player's, so records from before players had their own
+// stay with it
+const RECORD_STORAGE_KEYS: Record<RecordStore, string> = {
+  sessions: 'finesse-session-history',
+  replays: 'finesse-replays',
+};
+
+const VALUE_STORE = 'values';
+
+// Keys of app data in localStorage
+const LOCAL_STORAGE_PREFIX = 'finesse-';
+
+// Set in localStorage once the database has opened in this browser
+const DB_OPENED_KEY = 'finesse-therapy-db-opened';
+
+// Attempts at opening a database that opened before, and the wait between
+// them (longer each time)
+const OPEN_ATTEMPTS = 3;
+const OPEN_RETRY_DELAY_MS = 500;
+
+/**
+ * Migrations in schema order - migration N upgrades version N to N + 1
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // 1: the stores, seeded with everything previously kept in localStorage
+  (db, tx) => {
+    db.createObjectStore(VALUE_STORE);
+    for (const store of Object.keys(RECORD_KEY_PATHS) as RecordStore[]) {
+      db.createObjectStore(store, { keyPath: RECORD_KEY_PATHS[store] });
+    }
+    importLocalStorage(tx);
+  },
+  // 2: session history and replays move to values, one per record, so each
+  // player can have their own
+  (db, tx) => {
+    for (const store of Object.keys(RECORD_KEY_PATHS) as RecordStore[]) {
+      const request = tx.objectStore(store).getAll();
+      request.onsuccess = () => {
+        for (const record of request.result) {
+          const key = getRecordKey(RECORD_STORAGE_KEYS[store], record[RECORD_KEY_PATHS[store]]);
+          tx.objectStore(VALUE_STORE).put(record, key);
+        }
+        db.deleteObjectStore(store);
+      };
+    }
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+/**
+ * Key of one record in a list stored a record per key, so saving one
+ * doesn't rewrite the rest
+ */
+export function getRecordKey(key: string, id: string | number): string {
+  return `${key}:${encodeURIComponent(id)}`;
+}
+
+function parseStored(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+// Records stored in localStorage - an array, or the { sessions } shape
+// session history had before it moved to IndexedDB
+function parseStoredRecords(raw: string | null): Record<string, unknown>[] {
+  if (!raw) return [];
+  const parsed = parseStored(raw);
+  if (Array.isArray(parsed)) return parsed;
+  if (parsed && typeof parsed === 'object' && Array.isArray((parsed as { sessions?: unknown }).sessions)) {
+    return (parsed as { sessions: Record<string, unknown>[] }).sessions;
+  }
+  return [];
+}
+
+// App values in localStorage - everything but the database marker
+function isLocalValueKey(key: string | null): key is string {
+  return !!key?.startsWith(LOCAL_STORAGE_PREFIX) && key !== DB_OPENED_KEY;
+}
+
+function isRecordStorageKey(key: string): boolean {
+  return Object.values(RECORD_STORAGE_KEYS).includes(key);
+}
+
+// localStorage keys copied into the database, removed once it has opened
+let importedKeys: string[] = [];
+
+/**
+ * Copy app data from localStorage into the new stores. The originals stay
+ * until the database has opened.
+ */
+function importLocalStorage(tx: IDBTransaction) {
+  const imported: string[] = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!isLocalValueKey(key) || isRecordStorageKey(key)) continue;
+    tx.objectStore(VALUE_STORE).put(parseStored(localStorage.getItem(key)!), key);
+    imported.push(key);
+  }
+
+  for (const store of Object.keys(RECORD_STORAGE_KEYS) as RecordStore[]) {
+    const key = RECORD_STORAGE_KEYS[store];
+    for (const record of parseStoredRecords(localStorage.getItem(key))) {
+      tx.objectStore(store).put(record);
+    }
+    imported.push(key);
+  }
+
+  importedKeys = imported;
+}
+
+/**
+ * Without the database, split record lists kept in localStorage into a
+ * record per key, the way the database stores them
+ */
+function splitLocalRecords() {
+  if (!hasLocalStorage()) return;
+  try {
+    for (const store of Object.keys(RECORD_STORAGE_KEYS) as RecordStore[]) {
+      const key = RECORD_STORAGE_KEYS[store];
+      const raw = localStorage.getItem(key);
+      if (raw === null) continue;
+      for (const record of parseStoredRecords(raw)) {
+        const id = record[RECORD_KEY_PATHS[store]];
+        if (typeof id === 'string' || typeof id === 'number') {
+          localStorage.setItem(getRecordKey(key, id), JSON.stringify(record));
+        }
+      }
+      localStorage.removeItem(key);
+    }
+  } catch {
+    // Storage full - split again on the next page load
+  }
+}
+
+function wasDatabaseOpened(): boolean {
+  try {
+    return hasLocalStorage() && localStorage.getItem(DB_OPENED_KEY) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Note that the database works, and clear what was imported into it
+ */
+function confirmDatabaseOpened() {
+  try {
+    localStorage.setItem(DB_OPENED_KEY, '1');
+    for (const key of importedKeys) localStorage.removeItem(key);
+    importedKeys = [];
+  } catch {
+    // Cleared on the next open
+  }
+}
+
+/**
+ * Open the database once, upgrading it if needed. Resolves to null when it
+ * can't be opened.
+ */
+function requestDatabase(): Promise<IDBDatabase | null> {
+  return new Promise(resolve => {
+    let request: IDBOpenDBRequest;
+    try {
+      request = indexedDB.open(DB_NAME, DB_VERSION);
+    } catch {
+      resolve(null);
+      return;
+    }
+
+    request.onupgradeneeded = (event) => {
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](request.result, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading - let it, and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      confirmDatabaseOpened();
+      resolve(db);
+    };
+    request.onerror = () => resolve(null);
+    // Left waiting - other tabs close their connection on versionchange, and
+    // the open goes ahead once they have
+    request.onblocked = () => {};
+  });
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Open the database. Resolves to null when IndexedDB can't be used here, so
+ * callers fall back to localStorage. A database that opened before is
+ * retried instead, then rejects until the page reloads - its data isn't in
+ * localStorage.
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  const open = async (): Promise<IDBDatabase | null> => {
+    if (typeof indexedDB === 'undefined') {
+      splitLocalRecords();
+      return null;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const db = await requestDatabase();
+      if (db) return db;
+      if (!wasDatabaseOpened()) {
+        splitLocalRecords();
+        return null;
+      }
+      if (attempt === OPEN_ATTEMPTS) {
+        console.error('Saved data is unavailable: the IndexedDB database failed to open');
+        throw new Error('The IndexedDB database failed to open');
+      }
+      await new Promise(resolve => setTimeout(resolve, OPEN_RETRY_DELAY_MS * attempt));
+    }
+  };
+  dbPromise = open();
+  return dbPromise;
+}
+
+function runRequest<T>(
+  db: IDBDatabase,
+  store: string,
+  mode: IDBTransactionMode,
+  makeRequest: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = makeRequest(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function hasLocalStorage(): boolean {
+  return typeof localStorage !== 'undefined';
+}
+
+/**
+ * Whether saved data can be read and written - false once the database
+ * that held it has failed to open
+ */
+export function isStorageAvailable(): Promise<boolean> {
+  return openDatabase().then(() => true, () => false);
+}
+
+/**
+ * Read a stored value (undefined when there is none, or when the database
+ * is unavailable)
+ */
+export async function getValue<T>(key: string): Promise<T | undefined> {
+  const db = await openDatabase().catch(() => undefined);
+  // The database is unavailable, and already reported
+  if (db === undefined) return undefined;
+  if (db) {
+    return runRequest<T | undefined>(db, VALUE_STORE, 'readonly', store => store.get(key))
+      .catch(() => undefined);
+  }
+
+  if (!hasLocalStorage()) return undefined;
+  const raw = localStorage.getItem(key);
+  return raw === null ? undefined : parseStored(raw) as T;
+}
+
+/**
+ * Store a value. Failures (storage full, database unavailable) are
+ * swallowed - saving is best effort.
+ */
+export async function setValue(key: string, value: unknown): Promise<void> {
+  try {
+    const db = await openDatabase();
+    if (db) {
+      await runRequest(db, VALUE_STORE, 'readwrite', store => store.put(value, key));
+    } else if (hasLocalStorage()) {
+      localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch {
+    // Storage full or unavailable
+  }
+}
+
+export async function removeValue(key: string): Promise<void> {
+  const db = await openDatabase().catch(() => undefined);
+  // The database is unavailable, and already reported
+  if (db === undefined) return;
+  if (db) {
+    await runRequest(db, VALUE_STORE, 'readwrite', store => store.delete(key)).catch(() => undefined);
+  } else if (hasLocalStorage()) {
+    localStorage.removeItem(key);
+  }
+}
+
+/**
+ * Keys of every stored value
+ */
+export async function getValueKeys(): Promise<string[]> {
+  const db = await openDatabase().catch(() => undefined);
+  if (db === undefined) return [];
+  if (db) {
+    return runRequest(db, VALUE_STORE, 'readonly', store => store.getAllKeys())
+      .then(keys => keys.map(String))
+      .catch(() => []);
+  }
+
+  if (!hasLocalStorage()) return [];
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (isLocalValueKey(key)) keys.push(key);
+  }
+  return keys;
+}
@@ -0,0 +1,120 @@
+/**
+ * Cross-Tab Sync
+ *
+ * With the app open in several tabs, each one would otherwise keep its own
+ * copy of settings and progress and overwrite the others' saves. Saved
+ * values are broadcast on a BroadcastChannel so the other tabs adopt them at
+ * once, and a Web Lock elects a single writer for data that must not be
+ * written by two tabs at the same time. The other tabs send that writer
+ * their changes as operations rather than whole values, so changes made in
+ * two tabs at once both land. Messages only reach tabs on the same player.
+ *
+ * Without BroadcastChannel or Web Locks (old browsers) each tab works on
+ * its own, as before.
+ */
+
+import { getActivePlayerId } from './players';
+
+const CHANNEL_NAME = 'finesse-therapy-sync';
+
+interface SyncMessage {
+  kind: 'value' | 'operation';
+  playerId: string;
+  key: string;
+  data: unknown;
+}
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  channel ??= new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+}
+
+async function postMessage(kind: SyncMessage['kind'], key: string, data: unknown): Promise<void> {
+  const message: SyncMessage = { kind, playerId: await getActivePlayerId(), key, data };
+  try {
+    getChannel()?.postMessage(message);
+  } catch {
+    // Values that can't be cloned stay local
+  }
+}
+
+function subscribe<T>(kind: SyncMessage['kind'], key: string, onData: (data: T) => void): () => void {
+  const sync = getChannel();
+  if (!sync) return () => {};
+
+  const handleMessage = async (event: MessageEvent<SyncMessage>) => {
+    if (event.data?.kind !== kind || event.data.key !== key) return;
+    if (event.data.playerId === await getActivePlayerId()) {
+      onData(event.data.data as T);
+    }
+  };
+  sync.addEventListener('message', handleMessage);
+  return () => sync.removeEventListener('message', handleMessage);
+}
+
+/**
+ * Send a saved value of the active player to the other tabs
+ */
+export function broadcastValue(key: string, value: unknown): Promise<void> {
+  return postMessage('value', key, value);
+}
+
+/**
+ * Listen for a value saved by another tab on the active player. Returns a
+ * function that stops listening.
+ */
+export function subscribeToValue<T>(key: string, onValue: (value: T) => void): () => void {
+  return subscribe('value', key, onValue);
+}
+
+/**
+ * Send a change to a value of the active player for its writer to apply.
+ * The writer saves the result and broadcasts it like any other value.
+ */
+export function sendToWriter(key: string, operation: unknown): Promise<void> {
+  return postMessage('operation', key, operation);
+}
+
+/**
+ * Listen for changes other tabs send to the writer of a value of the active
+ * player. Every tab hears them - only the one holding the writer lock should
+ * apply them. Returns a function that stops listening.
+ */
+export function subscribeToOperations<T>(key: string, onOperation: (operation: T) => void): () => void {
+  return subscribe('operation', key, onOperation);
+}
+
+/**
+ * Wait to become the one tab that writes a value of the active player, and
+ * hold that until released. onAcquired runs once the lock is held - at once
+ * when Web Locks aren't supported. Returns a function that releases the lock,
+ * or stops waiting for it.
+ */
+export function acquireWriterLock(name: string, onAcquired: () => void): () => void {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onAcquired();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let release = () => {};
+  const held = new Promise<void>(resolve => {
+    release = resolve;
+  });
+
+  getActivePlayerId()
+    .then(playerId => navigator.locks.request(`${name}:${playerId}`, { signal: controller.signal }, () => {
+      onAcquired();
+      return held;
+    }))
+    // Aborted while still waiting
+    .catch(() => undefined);
+
+  return () => {
+    controller.abort();
+    release();
+  };
+}
@@ -0,0 +1,371 @@
+/**
+ * Training Profile Transfer
+ *
+ * One export file with everything a player's training depends on - settings,
+ * key bindings, learning cards and their session history, practice session
+ * history, difficulty state and personal bests - so it can move between
+ * machines. Importing compares the file with the local data first, then
+ * either replaces the local data or merges the two. Everything is the
+ * active player's.
+ */
+
+import type { GameSettings } from '@/hooks/use-game-settings';
+import type { StoredKeyProfiles } from '@/hooks/use-key-bindings';
+import type { StoredLearningProgress } from '@/hooks/use-learning-progress';
+import type { DifficultyTier, StoredDifficultyState } from '@/hooks/use-difficulty-system';
+import { DEFAULT_SETTINGS, STORAGE_KEY as SETTINGS_STORAGE_KEY } from '@/hooks/use-game-settings';
+import { KEY_BINDINGS_STORAGE_KEY, KEY_BINDINGS_VERSION, KEY_BINDINGS_VERSION_KEY } from '@/hooks/use-key-bindings';
+import { LEARNING_STORAGE_KEY } from '@/hooks/use-learning-progress';
+import { DIFFICULTY_STORAGE_KEY, DIFFICULTY_TIERS } from '@/hooks/use-difficulty-system';
+import { GAME_MODES, GameMode } from './game-engine';
+import { BUILT_IN_PROFILES, isBindingProfile } from './key-profiles';
+import { RANDOMIZER_TYPES, RandomizerType } from './randomizer';
+import { PERSONAL_BEST_STORAGE_KEY, PersonalBest, PersonalBests, isBetterRun } from './personal-best';
+import { Card, SCHEDULER_TYPES, SchedulerType, SessionRecord, getSessionRecordKey, migrateCards } from './scheduler';
+import { SessionHistoryEntry, loadSessionHistory, saveSessionHistory } from './session-history';
+import { getPlayerValue, removePlayerValue, setPlayerValue } from './players';
+import { broadcastValue } from './tab-sync';
+
+// Bump when the file shape changes
+export const TRAINING_PROFILE_VERSION = 1;
+
+/**
+ * An exported training profile. Sections with nothing stored are null.
+ */
+export interface TrainingProfile {
+  version: number;
+  exportedAt: number;
+  settings: Partial<GameSettings> | null;
+  keyBindings: StoredKeyProfiles | null;
+  learning: StoredLearningProgress | null;
+  difficulty: StoredDifficultyState | null;
+  personalBests: PersonalBests;
+  sessions: SessionHistoryEntry[];
+}
+
+/**
+ * Read the active player's training profile from storage
+ */
+export async function loadTrainingProfile(): Promise<TrainingProfile> {
+  const bindingsVersion = await getPlayerValue<number | string>(KEY_BINDINGS_VERSION_KEY);
+  const keyBindings = await getPlayerValue<StoredKeyProfiles>(KEY_BINDINGS_STORAGE_KEY);
+
+  return {
+    version: TRAINING_PROFILE_VERSION,
+    exportedAt: Date.now(),
+    settings: await getPlayerValue<Partial<GameSettings>>(SETTINGS_STORAGE_KEY) ?? null,
+    // Bindings are migrated when the app loads, so older ones are rare
+    keyBindings: Number(bindingsVersion) === KEY_BINDINGS_VERSION ? keyBindings ?? null : null,
+    learning: await getPlayerValue<StoredLearningProgress>(LEARNING_STORAGE_KEY) ?? null,
+    difficulty: await getPlayerValue<StoredDifficultyState>(DIFFICULTY_STORAGE_KEY) ?? null,
+    personalBests: await getPlayerValue<PersonalBests>(PERSONAL_BEST_STORAGE_KEY) ?? {},
+    sessions: await loadSessionHistory(),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Each field is a number - or missing, when optional
+function hasNumbers(value: Record<string, unknown>, required: string[], optional: string[] = []): boolean {
+  return required.every(key => isNumber(value[key])) &&
+    optional.every(key => value[key] === undefined || isNumber(value[key]));
+}
+
+function isTier(value: unknown): value is DifficultyTier {
+  return typeof value === 'string' && Object.hasOwn(DIFFICULTY_TIERS, value);
+}
+
+// Known settings have the type of their default - unknown ones are ignored
+function isSettings(value: unknown): value is Partial<GameSettings> {
+  if (!isObject(value)) return false;
+  return Object.entries(DEFAULT_SETTINGS).every(([key, fallback]) =>
+    value[key] === undefined || typeof value[key] === typeof fallback
+  ) && (value.randomizer === undefined || RANDOMIZER_TYPES.includes(value.randomizer as RandomizerType));
+}
+
+function isKeyBindings(value: unknown): value is StoredKeyProfiles {
+  return isObject(value) &&
+    typeof value.activeProfileId === 'string' &&
+    Array.isArray(value.customProfiles) &&
+    value.customProfiles.every(isBindingProfile);
+}
+
+// Fields of either scheduler's cards, and of cards saved before some existed
+const CARD_FIELDS = ['successCount', 'failCount', 'lastReviewed', 'nextReviewAt'];
+const OPTIONAL_CARD_FIELDS = ['dueAt', 'lapses', 'easiness', 'interval', 'repetitions', 'stability', 'difficulty'];
+
+function isCard(value: unknown): value is Card {
+  return isObject(value) &&
+    typeof value.patternId === 'string' &&
+    hasNumbers(value, CARD_FIELDS, OPTIONAL_CARD_FIELDS) &&
+    (value.leech === undefined || typeof value.leech === 'boolean');
+}
+
+function isSessionRecord(value: unknown): value is SessionRecord {
+  return isObject(value) &&
+    hasNumbers(
+      value,
+      ['timestamp', 'totalAttempts', 'correctAttempts', 'accuracy', 'patternsReviewed', 'newPatternsMastered'],
+      ['startedAt']
+    ) &&
+    (value.rotations === undefined || (
+      isObject(value.rotations) &&
+      Object.values(value.rotations).every(tally => isObject(tally) && hasNumbers(tally, ['attempts', 'correct']))
+    ));
+}
+
+function isLearning(value: unknown): value is StoredLearningProgress {
+  return isObject(value) &&
+    (value.scheduler === undefined || SCHEDULER_TYPES.includes(value.scheduler as SchedulerType)) &&
+    isObject(value.cards) &&
+    Object.values(value.cards).every(isCard) &&
+    (value.drill === undefined || value.drill === null || (
+      isObject(value.drill) && typeof value.drill.patternId === 'string' && isNumber(value.drill.streak)
+    )) &&
+    Array.isArray(value.sessionHistory) &&
+    value.sessionHistory.every(isSessionRecord) &&
+    hasNumbers(value, ['globalRepetitionCount', 'lastMasteredReview']);
+}
+
+function isDifficulty(value: unknown): value is StoredDifficultyState {
+  return isObject(value) &&
+    isNumber(value.version) &&
+    (value.manualTier === null || isTier(value.manualTier)) &&
+    isObject(value.state) &&
+    isTier(value.state.difficultyTier) &&
+    hasNumbers(value.state, [
+      'currentAccuracy',
+      'averageResponseTime',
+      'consistencyScore',
+      'flowStreak',
+      'currentDifficulty',
+      'adaptiveSpeed',
+      'weakPatternBias',
+      'newPatternRate',
+    ]) &&
+    Array.isArray(value.state.recentAccuracy) && value.state.recentAccuracy.every(isNumber) &&
+    Array.isArray(value.state.recentResponseTimes) && value.state.recentResponseTimes.every(isNumber);
+}
+
+function isPersonalBests(value: unknown): value is PersonalBests {
+  return isObject(value) &&
+    Object.entries(value).every(([mode, best]) =>
+      GAME_MODES.includes(mode as GameMode) && isObject(best) && hasNumbers(best, ['pieces', 'time', 'date'])
+    );
+}
+
+function isSessionHistoryEntry(value: unknown): value is SessionHistoryEntry {
+  return isObject(value) &&
+    isNumber(value.startedAt) &&
+    Array.isArray(value.tierChanges) &&
+    value.tierChanges.every(change =>
+      isObject(change) && isNumber(change.at) && isTier(change.from) && isTier(change.to)
+    ) &&
+    (value.rhythm === null || (
+      isObject(value.rhythm) && hasNumbers(value.rhythm, ['score', 'maxCombo']) && isObject(value.rhythm.judgments)
+    ));
+}
+
+/**
+ * Check that parsed JSON is a training profile this version can import,
+ * down to each section's fields - a file passing this is safe to preview
+ * and to store
+ */
+export function isTrainingProfile(value: unknown): value is TrainingProfile {
+  if (!isObject(value)) return false;
+  return value.version === TRAINING_PROFILE_VERSION &&
+    isNumber(value.exportedAt) &&
+    (value.settings === null || isSettings(value.settings)) &&
+    (value.keyBindings === null || isKeyBindings(value.keyBindings)) &&
+    (value.learning === null || isLearning(value.learning)) &&
+    (value.difficulty === null || isDifficulty(value.difficulty)) &&
+    isPersonalBests(value.personalBests) &&
+    Array.isArray(value.sessions) &&
+    value.sessions.every(isSessionHistoryEntry);
+}
+
+/**
+ * What importing a profile would change
+ */
+export interface TrainingProfileDiff {
+  settings: { key: string; local: unknown; imported: unknown }[];
+  keyBindings: { localProfile: string | null; importedProfile: string | null; newProfiles: string[] };
+  cards: { added: number; newer: number; older: number; unchanged: number };
+  learningSessions: { local: number; added: number };
+  sessions: { local: number; added: number };
+  difficulty: { local: DifficultyTier | null; imported: DifficultyTier | null };
+  personalBests: { mode: GameMode; local: PersonalBest | null; imported: PersonalBest | null }[];
+}
+
+function getActiveProfileName(bindings: StoredKeyProfiles | null): string | null {
+  if (!bindings) return null;
+  return [...BUILT_IN_PROFILES, ...bindings.customProfiles]
+    .find(profile => profile.id === bindings.activeProfileId)?.name ?? null;
+}
+
+function getTier(difficulty: StoredDifficultyState | null): DifficultyTier | null {
+  return difficulty ? difficulty.manualTier ?? difficulty.state.difficultyTier : null;
+}
+
+/**
+ * Compare a local profile with one being imported
+ */
+export function diffTrainingProfiles(local: TrainingProfile, imported: TrainingProfile): TrainingProfileDiff {
+  const settingKeys = new Set([...Object.keys(local.settings ?? {}), ...Object.keys(imported.settings ?? {})]);
+  const settings = [...settingKeys]
+    .map(key => ({
+      key,
+      local: (local.settings as Record<string, unknown> | null)?.[key],
+      imported: (imported.settings as Record<string, unknown> | null)?.[key],
+    }))
+    .filter(({ local, imported }) => JSON.stringify(local) !== JSON.stringify(imported));
+
+  const localProfileIds = new Set(local.keyBindings?.customProfiles.map(profile => profile.id));
+  const newProfiles = (imported.keyBindings?.customProfiles ?? [])
+    .filter(profile => !localProfileIds.has(profile.id))
+    .map(profile => profile.name);
+
+  const localCards = local.learning?.cards ?? {};
+  const cards = { added: 0, newer: 0, older: 0, unchanged: 0 };
+  for (const [id, card] of Object.entries(imported.learning?.cards ?? {})) {
+    const localCard = localCards[id];
+    if (!localCard) cards.added++;
+    else if (card.lastReviewed > localCard.lastReviewed) cards.newer++;
+    else if (card.lastReviewed < localCard.lastReviewed) cards.older++;
+    else cards.unchanged++;
+  }
+
+  const localSessionKeys = new Set(local.learning?.sessionHistory.map(getSessionRecordKey));
+  const localSessionStarts = new Set(local.sessions.map(session => session.startedAt));
+
+  const personalBests = GAME_MODES
+    .map(mode => ({ mode, local: local.personalBests[mode] ?? null, imported: imported.personalBests[mode] ?? null }))
+    .filter(({ local, imported }) => imported && JSON.stringify(local) !== JSON.stringify(imported));
+
+  return {
+    settings,
+    keyBindings: {
+      localProfile: getActiveProfileName(local.keyBindings),
+      importedProfile: getActiveProfileName(imported.keyBindings),
+      newProfiles,
+    },
+    cards,
+    learningSessions: {
+      local: local.learning?.sessionHistory.length ?? 0,
+      added: (imported.learning?.sessionHistory ?? []).filter(session => !localSessionKeys.has(getSessionRecordKey(session))).length,
+    },
+    sessions: {
+      local: local.sessions.length,
+      added: imported.sessions.filter(session => !localSessionStarts.has(session.startedAt)).length,
+    },
+    difficulty: { local: getTier(local.difficulty), imported: getTier(imported.difficulty) },
+    personalBests,
+  };
+}
+
+// Records from both lists, the first list winning on duplicates, newest first
+function unionBy<T>(first: T[], second: T[], key: (item: T) => number): T[] {
+  const keys = new Set(first.map(key));
+  return [...first, ...second.filter(item => !keys.has(key(item)))].sort((a, b) => key(b) - key(a));
+}
+
+function mergeLearning(
+  local: StoredLearningProgress | null,
+  imported: StoredLearningProgress | null
+): StoredLearningProgress | null {
+  if (!local || !imported) return local ?? imported;
+
+  const globalRepetitionCount = Math.max(local.globalRepetitionCount, imported.globalRepetitionCount);
+  // Imported cards are converted to the local scheduler before comparing
+  const importedCards = imported.scheduler === local.scheduler
+    ? imported.cards
+    : migrateCards(imported.cards, local.scheduler);
+
+  // The most recently reviewed card of each pattern wins
+  const cards: Record<string, Card> = { ...local.cards };
+  for (const [id, card] of Object.entries(importedCards)) {
+    if (!cards[id] || card.lastReviewed > cards[id].lastReviewed) {
+      cards[id] = card;
+    }
+  }
+
+  return {
+    ...local,
+    cards,
+    drill: local.drill ?? imported.drill,
+    sessionHistory: unionBy<SessionRecord>(local.sessionHistory, imported.sessionHistory, getSessionRecordKey),
+    globalRepetitionCount,
+    lastMasteredReview: Math.max(local.lastMasteredReview, imported.lastMasteredReview),
+  };
+}
+
+/**
+ * Merge an imported profile into the local one. Progress is combined - the
+ * newest card of each pattern, every session and the best run of each
+ * mode - while settings, bindings and difficulty stay local, with imported
+ * custom binding profiles added alongside.
+ */
+export function mergeTrainingProfiles(local: TrainingProfile, imported: TrainingProfile): TrainingProfile {
+  const personalBests: PersonalBests = { ...local.personalBests };
+  for (const mode of GAME_MODES) {
+    const run = imported.personalBests[mode];
+    if (run && isBetterRun(run, personalBests[mode])) {
+      personalBests[mode] = run;
+    }
+  }
+
+  const keyBindings = local.keyBindings && imported.keyBindings
+    ? {
+        ...local.keyBindings,
+        customProfiles: [
+          ...local.keyBindings.customProfiles,
+          ...imported.keyBindings.customProfiles.filter(profile =>
+            !local.keyBindings!.customProfiles.some(p => p.id === profile.id)
+          ),
+        ],
+      }
+    : local.keyBindings ?? imported.keyBindings;
+
+  return {
+    ...local,
+    settings: local.settings ?? imported.settings,
+    keyBindings,
+    learning: mergeLearning(local.learning, imported.learning),
+    difficulty: local.difficulty ?? imported.difficulty,
+    personalBests,
+    sessions: unionBy(local.sessions, imported.sessions, session => session.startedAt),
+  };
+}
+
+// Store a section, or clear it when the profile has none
+async function saveSection(key: string, value: unknown) {
+  if (value === null) {
+    await removePlayerValue(key);
+  } else {
+    await setPlayerValue(key, value);
+  }
+}
+
+/**
+ * Write a profile to storage, replacing the local one. The page should be
+ * reloaded afterwards so every provider picks it up.
+ */
+export async function saveTrainingProfile(profile: TrainingProfile): Promise<void> {
+  await saveSection(SETTINGS_STORAGE_KEY, profile.settings);
+  await saveSection(KEY_BINDINGS_STORAGE_KEY, profile.keyBindings);
+  await saveSection(KEY_BINDINGS_VERSION_KEY, profile.keyBindings ? KEY_BINDINGS_VERSION : null);
+  await saveSection(LEARNING_STORAGE_KEY, profile.learning);
+  await saveSection(DIFFICULTY_STORAGE_KEY, profile.difficulty);
+  await setPlayerValue(PERSONAL_BEST_STORAGE_KEY, profile.personalBests);
+
+  // Other open tabs would otherwise save their old state over it
+  if (profile.settings) await broadcastValue(SETTINGS_STORAGE_KEY, profile.settings);
+  if (profile.learning) await broadcastValue(LEARNING_STORAGE_KEY, profile.learning);
+  await saveSessionHistory(profile.sessions);
+}
@@ -16,22 +16,23 @@ export type GameAction =
 
 // Key binding mapping
 export interface KeyBinding {
-  key: string;
+  keys: string[];              // Any of these keys triggers the action
+  button: number | null;       // Standard-mapping gamepad button, if bound
   action: GameAction;
 }
 
 // Default key bindings (using event.code for shift-independent matching)
 export const DEFAULT_KEY_BINDINGS: KeyBinding[] = [
-  { key: 'ArrowLeft', action: 'MOVE_LEFT' },
-  { key: 'ArrowRight', action: 'MOVE_RIGHT' },
-  { key: 'ArrowDown', action: 'SOFT_DROP' },
-  { key: 'ArrowUp', action: 'HARD_DROP' },
-  { key: 'KeyZ', action: 'ROTATE_CCW' },
-  { key: 'KeyX', action: 'ROTATE_CW' },
-  { key: 'KeyC', action: 'ROTATE_180' },
-  { key: 'Space', action: 'HOLD' },
-  { key: 'Escape', action: 'RESET' },
-  { key: 'Tab', action: 'CHANGE_MODE' },
+  { keys: ['ArrowLeft'], button: 14, action: 'MOVE_LEFT' },
+  { keys: ['ArrowRight'], button: 15, action: 'MOVE_RIGHT' },
+  { keys: ['ArrowDown'], button: 13, action: 'SOFT_DROP' },
+  { keys: ['ArrowUp'], button: 12, action: 'HARD_DROP' },
+  { keys: ['KeyZ'], button: 0, action: 'ROTATE_CCW' },
+  { keys: ['KeyX'], button: 1, action: 'ROTATE_CW' },
+  { keys: ['KeyC'], button: 3, action: 'ROTATE_180' },
+  { keys: ['Space'], button: 4, action: 'HOLD' },
+  { keys: ['Escape'], button: 9, action: 'RESET' },
+  { keys: ['Tab'], button: 8, action: 'CHANGE_MODE' },
 ];
 
 // Game modes